@@ -9,44 +9,77 @@ if (!fs.existsSync(distDir)) {
   fs.mkdirSync(distDir, { recursive: true });
 }
 
-// Build ESM version
-esbuild.build({
-  entryPoints: [path.join(__dirname, 'src', 'index.ts')],
-  bundle: true,
-  outfile: path.join(distDir, 'index.mjs'),
-  format: 'esm',
+// Entry points, each built as dist/<name>.mjs and dist/<name>.js
+const entries = ['index', 'server', 'core', 'testing'];
+
+const sharedOptions = {
   target: 'es2019',
   platform: 'browser',
   sourcemap: true,
   minify: true,
-  external: ['react', 'react-dom'],
+  // Left for the app's bundler to replace, so strict config validation
+  // only throws in the app's development builds
   define: {
-    'process.env.NODE_ENV': '"production"',
+    'process.env.NODE_ENV': 'process.env.NODE_ENV',
   },
-}).then(() => {
-  console.log('ESM build completed successfully');
-}).catch((error) => {
-  console.error('ESM build failed:', error);
-  process.exit(1);
-});
+};
+
+// Build ESM version
+// The entries are built together so modules they have in common (e.g. the
+// React context used by both the provider and MockAutoThemeProvider) end up
+// in shared chunks, loaded once however many entries an app imports
+const buildEsm = () =>
+  esbuild.build({
+    ...sharedOptions,
+    entryPoints: entries.map((entry) => path.join(__dirname, 'src', `${entry}.ts`)),
+    bundle: true,
+    splitting: true,
+    outdir: distDir,
+    chunkNames: 'chunks/[name]-[hash]',
+    outExtension: { '.js': '.mjs' },
+    format: 'esm',
+    external: ['react', 'react-dom'],
+    metafile: true,
+  });
 
 // Build CJS version
-esbuild.build({
-  entryPoints: [path.join(__dirname, 'src', 'index.ts')],
-  bundle: true,
-  outfile: path.join(distDir, 'index.js'),
-  format: 'cjs',
-  target: 'es2019',
-  platform: 'browser',
-  sourcemap: true,
-  minify: true,
-  external: ['react', 'react-dom'],
-  define: {
-    'process.env.NODE_ENV': '"production"',
-  },
-}).then(() => {
-  console.log('CJS build completed successfully');
-}).catch((error) => {
-  console.error('CJS build failed:', error);
-  process.exit(1);
-});
+// esbuild can't split CommonJS, so each ESM file (entries and chunks) is
+// converted on its own; chunks get the .cjs extension, which is as long as
+// .mjs, so rewriting the imports keeps the source maps aligned
+const buildCjs = async (esmResult) => {
+  const esmFiles = Object.keys(esmResult.metafile.outputs).filter((file) => file.endsWith('.mjs'));
+  const result = await esbuild.build({
+    ...sharedOptions,
+    entryPoints: esmFiles.map((file) => path.join(__dirname, file)),
+    outbase: distDir,
+    outdir: distDir,
+    format: 'cjs',
+    write: false,
+  });
+
+  result.outputFiles.forEach((file) => {
+    const isChunk = path.relative(distDir, file.path).startsWith('chunks');
+    let outPath = file.path;
+    let text = file.text.replace(/(\.\/(?:chunks\/)?chunk-[\w-]+)\.mjs/g, '$1.cjs');
+    if (isChunk) {
+      outPath = outPath.replace(/\.js(\.map)?$/, '.cjs$1');
+      text = text
+        .replace(/(sourceMappingURL=chunk-[\w-]+)\.js\.map/, '$1.cjs.map')
+        .replace(/"file":"(chunk-[\w-]+)\.js"/, '"file":"$1.cjs"');
+    }
+    fs.writeFileSync(outPath, text);
+  });
+};
+
+buildEsm()
+  .then((esmResult) => {
+    console.log(`ESM build of ${entries.join(', ')} completed successfully`);
+    return buildCjs(esmResult);
+  })
+  .then(() => {
+    console.log(`CJS build of ${entries.join(', ')} completed successfully`);
+  })
+  .catch((error) => {
+    console.error('Build failed:', error);
+    process.exit(1);
+  });
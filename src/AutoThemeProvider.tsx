@@ -5,64 +5,104 @@
 
 import React, {
   createContext,
+  useContext,
   useState,
   useEffect,
   useCallback,
+  useMemo,
+  useReducer,
   useRef,
 } from 'react';
-import { ThemeConfig, Theme, Mode, ThemeContextValue, ThemeState } from './types';
-import { DEFAULT_CONFIG } from './constants';
 import {
-  getThemeFromTime,
-  getMsUntilNextBoundary,
-  isValidTimeConfig,
-} from './timeUtils';
-import { getStoredModeWithFallback, storeMode, clearStoredMode } from './storage';
-import { VISIBILITY_CHANGE_EVENT } from './constants';
+  ThemeConfig,
+  Theme,
+  Mode,
+  ThemeContextValue,
+  ThemeState,
+  ThemeTokens,
+  OverrideDuration,
+  ThemeEventMap,
+  UserSchedule,
+} from './types';
+import { resolveConfig, isSameConfig } from './config';
+import { getAvailableThemes, applyUserSchedule } from './schedule';
+import { createMemoryStorageAdapter } from './storage';
+import { ThemeController } from './ThemeController';
+import { getThemeLevel } from './twilight';
 
 /**
  * Theme context type
  */
-interface ThemeContextType extends ThemeContextValue {
-  setMode: (mode: Mode) => void;
+export interface ThemeContextType extends ThemeContextValue {
+  setMode: (mode: Mode, duration?: OverrideDuration) => void;
+  tokens: ThemeTokens;
+  /** Config before defaults are applied, inherited by nested providers */
+  config: Partial<ThemeConfig>;
+  /** Config with defaults applied and invalid values replaced */
+  resolvedConfig: ThemeConfig;
+  /** Listen for an event of the provider's controller */
+  on: <K extends keyof ThemeEventMap>(
+    type: K,
+    listener: (event: ThemeEventMap[K]) => void
+  ) => () => void;
 }
 
+/**
+ * Tokens of themes without any, shared to keep the reference stable
+ */
+const EMPTY_TOKENS: ThemeTokens = {};
+
 /**
  * Create context with null as initial value
  */
 export const ThemeContext = createContext<ThemeContextType | null>(null);
 
 /**
- * Apply theme to DOM element
- * @param theme - Theme to apply
- * @param applyTo - Target element selector
+ * useSyncExternalStore, with a fallback for React 17
  */
-const applyThemeToDom = (theme: Theme, applyTo: 'html' | 'body'): void => {
-  if (typeof document === 'undefined') {
-    return;
-  }
+const useSyncExternalStore: typeof React.useSyncExternalStore =
+  React.useSyncExternalStore ??
+  ((subscribe, getSnapshot) => {
+    const snapshot = getSnapshot();
+    const snapshotRef = useRef(snapshot);
+    snapshotRef.current = snapshot;
+    const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+
+    useEffect(() => {
+      const checkForUpdate = () => {
+        if (getSnapshot() !== snapshotRef.current) {
+          forceUpdate();
+        }
+      };
+      // Catch changes made between render and subscription
+      checkForUpdate();
+      return subscribe(checkForUpdate);
+    }, [subscribe, getSnapshot]);
 
-  const target = applyTo === 'html' ? document.documentElement : document.body;
-  if (target) {
-    target.setAttribute('data-theme', theme);
-  }
-};
+    return snapshot;
+  });
 
 /**
- * Calculate theme based on mode
- * @param mode - Current mode
- * @param config - Theme configuration
- * @returns Calculated theme
+ * Config options a nested provider doesn't inherit from its parent
  */
-const calculateTheme = (mode: Mode, config: ThemeConfig): Theme => {
-  if (mode === 'light') {
-    return 'light';
-  }
-  if (mode === 'dark') {
-    return 'dark';
-  }
-  // mode === 'auto'
-  return getThemeFromTime(config.lightStart, config.darkStart);
+const NON_INHERITED_OPTIONS: Array<keyof ThemeConfig> = ['onThemeChange'];
+
+/**
+ * Replace the top-level callbacks with ones calling those of the latest
+ * config, so inline functions are up to date without resolving the config again
+ */
+const forwardCallbacks = (
+  config: Partial<ThemeConfig>,
+  latest: React.MutableRefObject<Partial<ThemeConfig>>
+): Partial<ThemeConfig> => {
+  const { onThemeChange, onError, now } = config;
+  return {
+    ...config,
+    onThemeChange:
+      onThemeChange && ((...args) => (latest.current.onThemeChange ?? onThemeChange)(...args)),
+    onError: onError && ((error) => (latest.current.onError ?? onError)(error)),
+    now: now && (() => (latest.current.now ?? now)()),
+  };
 };
 
 /**
@@ -71,6 +111,21 @@ const calculateTheme = (mode: Mode, config: ThemeConfig): Theme => {
 interface AutoThemeProviderProps {
   /** Theme configuration options */
   config?: Partial<ThemeConfig>;
+  /**
+   * Mode and theme resolved on the server (see getServerThemeState)
+   * Used instead of reading storage on the first render, so the client
+   * hydrates with the same values the server rendered
+   */
+  initialState?: ThemeState;
+  /**
+   * Apply the theme to a container instead of the whole document:
+   * true renders a <div> around the children, or pass a ref to an existing element.
+   * Scoped providers keep their mode in memory unless a storageKey or
+   * storage adapter is configured.
+   */
+  scope?: true | React.RefObject<HTMLElement | null>;
+  /** Props of the container rendered when scope is true */
+  scopeProps?: React.HTMLAttributes<HTMLDivElement>;
   /** Child components */
   children: React.ReactNode;
 }
@@ -78,205 +133,145 @@ interface AutoThemeProviderProps {
 /**
  * AutoThemeProvider component
  * Manages theme state, scheduling, and DOM updates
+ * Nested providers inherit the config of the nearest parent provider,
+ * except for onThemeChange, and override it with their own
  */
 export const AutoThemeProvider: React.FC<AutoThemeProviderProps> = ({
   config = {},
+  initialState,
+  scope,
+  scopeProps,
   children,
 }) => {
-  // Merge config with defaults
-  const mergedConfig: ThemeConfig = {
-    ...DEFAULT_CONFIG,
-    ...config,
-  };
-
-  // Validate time config
-  if (!isValidTimeConfig(mergedConfig.lightStart, mergedConfig.darkStart)) {
-    console.warn(
-      'AutoThemeProvider: Invalid time configuration. ' +
-      'Using default values instead.'
-    );
-    mergedConfig.lightStart = DEFAULT_CONFIG.lightStart;
-    mergedConfig.darkStart = DEFAULT_CONFIG.darkStart;
-  }
-
-  // State for mode and theme
-  const [state, setState] = useState<ThemeState>(() => {
-    const storedMode = getStoredModeWithFallback(
-      mergedConfig.storageKey,
-      mergedConfig.defaultMode
-    );
-    const theme = calculateTheme(storedMode, mergedConfig);
-    return {
-      mode: storedMode,
-      theme,
+  const parentContext = useContext(ThemeContext);
+
+  // In-memory storage of scoped providers without their own persistence
+  const [scopeStorage] = useState(() => createMemoryStorageAdapter());
+
+  // Combine the parent's config with this provider's own
+  const inheritedConfig: Partial<ThemeConfig> = { ...parentContext?.config };
+  NON_INHERITED_OPTIONS.forEach((option) => delete inheritedConfig[option]);
+  const ownConfig: Partial<ThemeConfig> =
+    scope && config.storageKey === undefined && config.storage === undefined
+      ? { storage: scopeStorage, syncTabs: false, ...config }
+      : config;
+  const providerConfig = { ...inheritedConfig, ...ownConfig };
+  const latestConfigRef = useRef(providerConfig);
+  latestConfigRef.current = providerConfig;
+
+  // Merge config with defaults and validate it, once per change of its values,
+  // so a config object recreated on every render isn't reported again
+  const resolvedRef = useRef<{ source: Partial<ThemeConfig>; config: ThemeConfig } | null>(null);
+  if (resolvedRef.current === null || !isSameConfig(resolvedRef.current.source, providerConfig)) {
+    resolvedRef.current = {
+      source: providerConfig,
+      config: resolveConfig(forwardCallbacks(providerConfig, latestConfigRef)),
     };
-  });
-
-  // Ref for timeout to enable cleanup
-  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  /**
-   * Update theme and apply to DOM
-   */
-  const updateTheme = useCallback(
-    (newMode: Mode, newTheme: Theme) => {
-      setState({ mode: newMode, theme: newTheme });
-      applyThemeToDom(newTheme, mergedConfig.applyTo);
-      
-      // Call onThemeChange callback if provided
-      if (mergedConfig.onThemeChange) {
-        mergedConfig.onThemeChange(newTheme, newMode);
-      }
-    },
-    [mergedConfig]
+  }
+  const baseConfig = resolvedRef.current.config;
+
+  // Container rendered for scope={true}
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Latest scope, read by the controller whenever it applies the theme
+  const scopeRef = useRef(scope);
+  scopeRef.current = scope;
+
+  // The controller holds all state; it's created once and updated with new config
+  const [controller] = useState(
+    () =>
+      new ThemeController(baseConfig, {
+        initialState,
+        scope: scope
+          ? () => (scopeRef.current === true ? containerRef.current : scopeRef.current?.current)
+          : undefined,
+      })
   );
 
-  /**
-   * Set mode and update storage
-   */
-  const setMode = useCallback(
-    (newMode: Mode) => {
-      const newTheme = calculateTheme(newMode, mergedConfig);
+  const state = useSyncExternalStore(controller.subscribe, controller.getState, controller.getState);
+  const mergedConfig = applyUserSchedule(baseConfig, state.schedule);
 
-      if (newMode === 'auto') {
-        // When switching to auto, clear stored preference
-        clearStoredMode(mergedConfig.storageKey);
-      } else {
-        // Store manual preference
-        storeMode(newMode, mergedConfig.storageKey);
-      }
-
-      updateTheme(newMode, newTheme);
-    },
-    [mergedConfig, updateTheme]
-  );
-
-  /**
-   * Schedule next theme check
-   */
-  const scheduleNextCheck = useCallback(() => {
-    // Clear existing timeout
-    if (timeoutRef.current) {
-      clearTimeout(timeoutRef.current);
-      timeoutRef.current = null;
-    }
-
-    // Only schedule if in auto mode
-    if (state.mode !== 'auto') {
-      return;
-    }
-
-    const msUntilBoundary = getMsUntilNextBoundary(
-      mergedConfig.lightStart,
-      mergedConfig.darkStart
-    );
-
-    // Ensure we don't schedule too far in the future
-    const safeMsUntilBoundary = Math.min(msUntilBoundary, 24 * 60 * 60 * 1000);
-
-    timeoutRef.current = setTimeout(() => {
-      const newTheme = getThemeFromTime(
-        mergedConfig.lightStart,
-        mergedConfig.darkStart
-      );
-      
-      setState((prevState) => {
-        // Only update if we're still in auto mode
-        if (prevState.mode !== 'auto') {
-          return prevState;
-        }
-
-        // Only update if theme actually changed
-        if (prevState.theme === newTheme) {
-          return prevState;
-        }
-
-        applyThemeToDom(newTheme, mergedConfig.applyTo);
-        
-        if (mergedConfig.onThemeChange) {
-          mergedConfig.onThemeChange(newTheme, 'auto');
-        }
-
-        return { ...prevState, theme: newTheme };
-      });
-
-      // Schedule next check
-      scheduleNextCheck();
-    }, safeMsUntilBoundary);
-  }, [state.mode, mergedConfig, updateTheme]);
-
-  /**
-   * Handle visibility change (tab focus)
-   */
-  const handleVisibilityChange = useCallback(() => {
-    if (document.visibilityState === 'visible' && state.mode === 'auto') {
-      // Recalculate theme when tab becomes visible
-      const newTheme = getThemeFromTime(
-        mergedConfig.lightStart,
-        mergedConfig.darkStart
-      );
-
-      setState((prevState) => {
-        if (prevState.theme === newTheme) {
-          return prevState;
-        }
-
-        applyThemeToDom(newTheme, mergedConfig.applyTo);
-        
-        if (mergedConfig.onThemeChange) {
-          mergedConfig.onThemeChange(newTheme, 'auto');
-        }
-
-        return { ...prevState, theme: newTheme };
-      });
-    }
-  }, [state.mode, mergedConfig]);
-
-  // Initial theme application on mount
   useEffect(() => {
-    applyThemeToDom(state.theme, mergedConfig.applyTo);
-  }, []);
+    controller.setConfig(baseConfig);
+  }, [controller, baseConfig]);
 
-  // Setup and cleanup for scheduling and event listeners
   useEffect(() => {
-    // Schedule next check
-    scheduleNextCheck();
+    controller.start();
+    return () => controller.destroy();
+  }, [controller]);
 
-    // Add visibility change listener
-    document.addEventListener(VISIBILITY_CHANGE_EVENT, handleVisibilityChange);
-
-    // Cleanup
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-      document.removeEventListener(VISIBILITY_CHANGE_EVENT, handleVisibilityChange);
-    };
-  }, [scheduleNextCheck, handleVisibilityChange]);
-
-  // Update schedule when config changes
-  useEffect(() => {
-    if (state.mode === 'auto') {
-      scheduleNextCheck();
-    }
-  }, [mergedConfig.lightStart, mergedConfig.darkStart, state.mode, scheduleNextCheck]);
+  const { overrideUntil } = state;
+  const setMode = useCallback(
+    (mode: Mode, duration?: OverrideDuration) => controller.setMode(mode, duration),
+    [controller]
+  );
+  // Stable, so components can pass them to memoized children
+  const setters = useMemo(
+    () => ({
+      setLight: (duration?: OverrideDuration) => controller.setMode('light', duration),
+      setDark: (duration?: OverrideDuration) => controller.setMode('dark', duration),
+      setAuto: () => controller.setMode('auto'),
+      setSystem: (duration?: OverrideDuration) => controller.setMode('system', duration),
+      setAmbient: (duration?: OverrideDuration) => controller.setMode('ambient', duration),
+      setTheme: (theme: Theme, duration?: OverrideDuration) => controller.setMode(theme, duration),
+      toggleTheme: (duration?: OverrideDuration) => controller.toggleTheme(duration),
+    }),
+    [controller]
+  );
+  const setSchedule = useCallback(
+    (schedule: UserSchedule) => controller.setSchedule(schedule),
+    [controller]
+  );
+  const resetSchedule = useCallback(() => controller.resetSchedule(), [controller]);
+  const { lightStart, darkStart } = mergedConfig;
+  const schedule = useMemo(() => ({ lightStart, darkStart }), [lightStart, darkStart]);
+
+  const themes = getAvailableThemes(mergedConfig);
+  const overrideUntilDate = useMemo(
+    () => (overrideUntil ? new Date(overrideUntil) : null),
+    [overrideUntil]
+  );
 
   // Context value
   const contextValue: ThemeContextType = {
     theme: state.theme,
     mode: state.mode,
+    themes,
+    overrideUntil: overrideUntilDate,
+    progress: state.progress ?? getThemeLevel(state.theme),
+    config: providerConfig,
+    resolvedConfig: mergedConfig,
+    tokens: mergedConfig.tokens?.[state.theme] ?? EMPTY_TOKENS,
     setMode,
-    setLight: () => setMode('light'),
-    setDark: () => setMode('dark'),
-    setAuto: () => setMode('auto'),
-    toggleTheme: () => setMode(state.theme === 'light' ? 'dark' : 'light'),
+    ...setters,
+    schedule,
+    isCustomSchedule: Boolean(state.schedule),
+    setSchedule,
+    resetSchedule,
+    on: controller.on,
   };
 
-  return (
+  const provider = (
     <ThemeContext.Provider value={contextValue}>
       {children}
     </ThemeContext.Provider>
   );
+
+  if (scope !== true) {
+    return provider;
+  }
+
+  // Render the default attribute right away, so server-rendered
+  // containers are themed before hydration
+  return (
+    <div
+      {...scopeProps}
+      ref={containerRef}
+      data-theme={mergedConfig.appliers ? undefined : state.theme}
+    >
+      {provider}
+    </div>
+  );
 };
 
 export default AutoThemeProvider;
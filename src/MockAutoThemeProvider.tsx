@@ -0,0 +1,168 @@
+/**
+ * MockAutoThemeProvider for react-auto-time-theme
+ * Provides a fixed theme and mode to components under test
+ */
+
+import React, { useMemo } from 'react';
+import {
+  Theme,
+  Mode,
+  ThemeContextValue,
+  ThemeTokens,
+  OverrideDuration,
+  UserSchedule,
+} from './types';
+import { ThemeContext, ThemeContextType } from './AutoThemeProvider';
+import { getNextTheme, isValidUserSchedule, applyUserSchedule } from './schedule';
+import { getThemeLevel } from './twilight';
+import { DEFAULT_CONFIG, DEFAULT_LIGHT_START, DEFAULT_DARK_START } from './constants';
+
+/**
+ * Defaults shared between renders, to keep the context value stable
+ */
+const DEFAULT_THEMES: Theme[] = ['light', 'dark'];
+const EMPTY_TOKENS: ThemeTokens = {};
+const DEFAULT_SCHEDULE: UserSchedule = { lightStart: DEFAULT_LIGHT_START, darkStart: DEFAULT_DARK_START };
+const noop = () => {};
+const on = () => noop;
+
+/**
+ * MockAutoThemeProvider Props
+ * Setters default to calling setMode, so a single spy records every call;
+ * pass individual setters to spy on them separately. setSchedule only
+ * reports whether the times are valid, and resetSchedule does nothing,
+ * unless passed.
+ */
+interface MockAutoThemeProviderProps
+  extends Partial<
+    Pick<
+      ThemeContextValue,
+      | 'setLight'
+      | 'setDark'
+      | 'setAuto'
+      | 'setSystem'
+      | 'setAmbient'
+      | 'setTheme'
+      | 'toggleTheme'
+      | 'isCustomSchedule'
+      | 'setSchedule'
+      | 'resetSchedule'
+    >
+  > {
+  /**
+   * Theme provided to components
+   * @default "light"
+   */
+  theme?: Theme;
+  /**
+   * Mode provided to components
+   * @default "auto"
+   */
+  mode?: Mode;
+  /**
+   * Available themes
+   * @default ["light", "dark"]
+   */
+  themes?: Theme[];
+  /** Expiry of a time-limited override */
+  overrideUntil?: Date | null;
+  /** Twilight blend progress (defaults to 1 for 'dark' and 0 otherwise) */
+  progress?: number;
+  /** Tokens returned by useThemeTokens */
+  tokens?: ThemeTokens;
+  /**
+   * Daily light and dark start times
+   * @default { lightStart: "07:00", darkStart: "22:00" }
+   */
+  schedule?: UserSchedule;
+  /** Called by all setters that aren't passed explicitly */
+  setMode?: (mode: Mode, duration?: OverrideDuration) => void;
+  /** Child components */
+  children: React.ReactNode;
+}
+
+/**
+ * MockAutoThemeProvider component
+ * The theme and mode never change on their own: setters only call the
+ * provided functions, nothing is scheduled, stored or applied to the DOM,
+ * and no events are emitted
+ *
+ * @example
+ * const setMode = vi.fn();
+ * render(
+ *   <MockAutoThemeProvider theme="dark" mode="dark" setMode={setMode}>
+ *     <ThemeToggle />
+ *   </MockAutoThemeProvider>
+ * );
+ */
+export const MockAutoThemeProvider: React.FC<MockAutoThemeProviderProps> = ({
+  theme = 'light',
+  mode = 'auto',
+  themes = DEFAULT_THEMES,
+  overrideUntil = null,
+  progress = getThemeLevel(theme),
+  tokens = EMPTY_TOKENS,
+  schedule = DEFAULT_SCHEDULE,
+  isCustomSchedule = false,
+  setMode = noop,
+  setLight,
+  setDark,
+  setAuto,
+  setSystem,
+  setAmbient,
+  setTheme,
+  toggleTheme,
+  setSchedule = isValidUserSchedule,
+  resetSchedule = noop,
+  children,
+}) => {
+  const contextValue = useMemo<ThemeContextType>(
+    () => ({
+      theme,
+      mode,
+      themes,
+      overrideUntil,
+      progress,
+      tokens,
+      config: {},
+      resolvedConfig: applyUserSchedule(DEFAULT_CONFIG, schedule),
+      setMode,
+      setLight: setLight ?? ((duration) => setMode('light', duration)),
+      setDark: setDark ?? ((duration) => setMode('dark', duration)),
+      setAuto: setAuto ?? (() => setMode('auto')),
+      setSystem: setSystem ?? ((duration) => setMode('system', duration)),
+      setAmbient: setAmbient ?? ((duration) => setMode('ambient', duration)),
+      setTheme: setTheme ?? ((name, duration) => setMode(name, duration)),
+      toggleTheme: toggleTheme ?? ((duration) => setMode(getNextTheme(theme, themes), duration)),
+      schedule,
+      isCustomSchedule,
+      setSchedule,
+      resetSchedule,
+      on,
+    }),
+    [
+      theme,
+      mode,
+      themes,
+      overrideUntil,
+      progress,
+      tokens,
+      setMode,
+      setLight,
+      setDark,
+      setAuto,
+      setSystem,
+      setAmbient,
+      setTheme,
+      toggleTheme,
+      schedule,
+      isCustomSchedule,
+      setSchedule,
+      resetSchedule,
+    ]
+  );
+
+  return <ThemeContext.Provider value={contextValue}>{children}</ThemeContext.Provider>;
+};
+
+export default MockAutoThemeProvider;
@@ -0,0 +1,867 @@
+/**
+ * ThemeController for react-auto-time-theme
+ * Framework-agnostic theme state, persistence, scheduling and DOM updates,
+ * shared by AutoThemeProvider, plain scripts and web components
+ */
+
+import {
+  ThemeConfig,
+  Theme,
+  Mode,
+  ThemeState,
+  OverrideDuration,
+  AmbientLightSource,
+  ThemeChangeReason,
+  ThemeEventMap,
+  UserSchedule,
+} from './types';
+import { resolveConfig } from './config';
+import {
+  getNextScheduledBoundary,
+  calculateTheme,
+  getAvailableThemes,
+  getNextTheme,
+  isAutomaticMode,
+  followsSystemTheme,
+  resolveOverrideExpiry,
+  getCurrentTime,
+  applyUserSchedule,
+  isValidUserSchedule,
+  normalizeUserSchedule,
+} from './schedule';
+import {
+  StoredPreference,
+  StoredThemeRead,
+  readStoredData,
+  isPromise,
+  parseStoredData,
+  serializePreference,
+  storePreference,
+  clearStoredMode,
+} from './storage';
+import { createModeSync, ModeSync } from './sync';
+import { runThemeTransition } from './transition';
+import { applyTheme } from './appliers';
+import { applyTokensToElement, injectTokenStylesheet } from './tokens';
+import { getSystemTheme, subscribeToSystemTheme } from './systemTheme';
+import { Scheduler, ScheduledTask, sharedScheduler } from './scheduler';
+import { createEventEmitter, EventEmitter } from './events';
+import { calculateProgress, getNextTwilightUpdate } from './twilight';
+import {
+  AmbientState,
+  INITIAL_AMBIENT_STATE,
+  createAmbientLightSensor,
+  updateAmbientState,
+  getAmbientDueTime,
+} from './ambient';
+import { DEFAULT_APPLIERS, DEFAULT_TWILIGHT_PROPERTY } from './constants';
+
+/**
+ * ThemeController options
+ */
+export interface ThemeControllerOptions {
+  /**
+   * Mode and theme resolved on the server (see getServerThemeState)
+   * Used instead of reading storage, so the client starts with the same
+   * values the server rendered
+   */
+  initialState?: ThemeState;
+
+  /**
+   * Apply the theme to a container instead of the whole document
+   * A function is called whenever the theme is applied, for containers that
+   * are created later (e.g., by a framework)
+   */
+  scope?: HTMLElement | (() => HTMLElement | null | undefined);
+
+  /**
+   * Scheduler running the boundary and expiry checks
+   * Defaults to the scheduler shared by all controllers
+   */
+  scheduler?: Scheduler;
+}
+
+/**
+ * Listener called with the new state whenever it changes
+ */
+export type ThemeStateListener = (state: ThemeState) => void;
+
+/**
+ * Apply theme to DOM elements with the configured appliers and tokens
+ * @param theme - Theme to apply
+ * @param config - Theme configuration (appliers, tokens and transition)
+ * @param animate - Whether to use the configured transition
+ * @param scope - Container of a scoped controller; the theme is applied only
+ * there, with selector targets resolved inside it and meta tags left alone
+ */
+const applyThemeToDom = (
+  theme: Theme,
+  config: ThemeConfig,
+  animate: boolean,
+  scope?: HTMLElement
+): void => {
+  if (typeof document === 'undefined') {
+    return;
+  }
+
+  const appliers = config.appliers ?? DEFAULT_APPLIERS;
+  const themes = getAvailableThemes(config);
+  const target = scope ?? (config.applyTo === 'html' ? document.documentElement : document.body);
+
+  runThemeTransition(() => {
+    if (scope) {
+      applyTheme(theme, appliers.filter((applier) => applier.type !== 'meta'), themes, scope, scope);
+    } else {
+      applyTheme(theme, appliers, themes, config.applyTo);
+    }
+
+    // Stylesheet tokens are keyed on the document's data-theme, so scoped
+    // controllers always write them inline
+    if (target && (scope || config.tokenStrategy !== 'stylesheet')) {
+      applyTokensToElement(target, theme, config);
+    }
+  }, animate ? config.transition : 'none');
+};
+
+/**
+ * Key of the options that affect the scheduled theme
+ */
+const getScheduleKey = (config: ThemeConfig): string => {
+  return JSON.stringify([
+    config.lightStart,
+    config.darkStart,
+    config.solar,
+    config.schedule,
+    config.days,
+    config.exceptions,
+    config.timeZone,
+    config.autoPrecedence,
+    config.twilight,
+    config.ambient,
+  ]);
+};
+
+/**
+ * Key of the options that affect how the theme is written to the DOM
+ */
+const getDomKey = (config: ThemeConfig): string => {
+  return JSON.stringify([
+    config.appliers,
+    config.tokens,
+    config.tokenPrefix,
+    config.tokenStrategy,
+    config.applyTo,
+  ]);
+};
+
+/**
+ * Check if two user's schedules (normalized, or missing) are the same
+ */
+const isSameSchedule = (a?: UserSchedule | null, b?: UserSchedule | null): boolean => {
+  return a?.lightStart === b?.lightStart && a?.darkStart === b?.darkStart;
+};
+
+/**
+ * Key of the options that affect tab synchronization
+ */
+const getSyncKey = (config: ThemeConfig): string => {
+  return JSON.stringify([
+    config.syncTabs !== false,
+    config.storageKey,
+    config.storage ? config.storage.type : 'localStorage',
+  ]);
+};
+
+/**
+ * ThemeController
+ * Holds the mode and theme, persists manual overrides, switches at schedule
+ * boundaries and writes the theme to the DOM.
+ * The constructor has no side effects; call start() to apply the theme and
+ * begin scheduling, and destroy() to stop. A destroyed controller can be
+ * started again.
+ *
+ * @example
+ * const controller = new ThemeController({ lightStart: '06:30' });
+ * controller.subscribe(({ theme }) => console.log(theme));
+ * controller.on('change', ({ theme, reason }) => analytics.track(theme, reason));
+ * controller.start();
+ */
+export class ThemeController {
+  // Configuration as passed in, and with the user's schedule applied
+  private baseConfig: ThemeConfig;
+  private config: ThemeConfig;
+  private state: ThemeState;
+  private readonly scope: ThemeControllerOptions['scope'];
+  private readonly scheduler: Scheduler;
+  private readonly listeners = new Set<ThemeStateListener>();
+  private readonly events: EventEmitter<ThemeEventMap> = createEventEmitter();
+  private started = false;
+
+  // Pending read of an asynchronous storage adapter
+  private pendingData: Promise<StoredThemeRead<Theme>> | null = null;
+
+  // Write moving the stored value to the current format, run once started
+  private pendingUpgrade: (() => void) | null = null;
+
+  // Whether the mode or the user's schedule was set, so a late storage read
+  // doesn't override it
+  private modeChanged = false;
+  private scheduleChanged = false;
+
+  // Theme last written to the DOM
+  private appliedTheme: Theme | null = null;
+
+  private sync: ModeSync | null = null;
+  private removeTask: (() => void) | null = null;
+
+  // When the scheduler should next run refresh(), fixed until it runs so a
+  // passed boundary doesn't move on to the following one
+  private dueTime: number | null = null;
+  private unsubscribeSystem: (() => void) | null = null;
+
+  // Light source read while in 'ambient' mode, and the readings so far
+  private ambientSource: AmbientLightSource | null = null;
+  private unsubscribeAmbient: (() => void) | null = null;
+  private ambient: AmbientState = INITIAL_AMBIENT_STATE;
+  private removeTokenStylesheet: (() => void) | null = null;
+
+  /**
+   * @param config - Theme configuration options
+   * @param options - Initial state and scope
+   */
+  constructor(config: Partial<ThemeConfig> = {}, options: ThemeControllerOptions = {}) {
+    this.baseConfig = resolveConfig(config);
+    this.scope = options.scope;
+    this.scheduler = options.scheduler ?? sharedScheduler;
+
+    if (options.initialState) {
+      const schedule = options.initialState.schedule ?? null;
+      this.config = applyUserSchedule(this.baseConfig, schedule);
+      this.state = {
+        ...options.initialState,
+        progress:
+          options.initialState.progress ??
+          calculateProgress(options.initialState.mode, this.config, getSystemTheme()),
+        schedule,
+      };
+    } else {
+      this.config = this.baseConfig;
+      this.state = this.readInitialState();
+    }
+  }
+
+  /**
+   * Get the current state
+   * The object is replaced on every change, so it can be compared by reference
+   */
+  getState = (): ThemeState => this.state;
+
+  /**
+   * Get the configuration, with defaults and the user's schedule applied
+   */
+  getConfig = (): ThemeConfig => this.config;
+
+  /**
+   * Get the available themes
+   */
+  getThemes = (): Theme[] => getAvailableThemes(this.config);
+
+  /**
+   * Listen for state changes
+   * @param listener - Called with the new state
+   * @returns Function that removes the listener
+   */
+  subscribe = (listener: ThemeStateListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Listen for an event
+   * @param type - Event name ('change')
+   * @param listener - Called with each event
+   * @returns Function that removes the listener
+   */
+  on = <K extends keyof ThemeEventMap>(
+    type: K,
+    listener: (event: ThemeEventMap[K]) => void
+  ): (() => void) => this.events.on(type, listener);
+
+  /**
+   * Stop listening for an event
+   * @param type - Event name
+   * @param listener - Listener passed to on()
+   */
+  off = <K extends keyof ThemeEventMap>(
+    type: K,
+    listener: (event: ThemeEventMap[K]) => void
+  ): void => this.events.off(type, listener);
+
+  /**
+   * Apply the theme and start scheduling, syncing and listening for changes
+   * Emits a 'change' event with the reason 'init' for the initial theme.
+   * Outside the browser only the DOM is left alone; the theme is still
+   * scheduled and the light sensor read. Does nothing when already started
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    this.applyToDom(this.state.theme);
+    this.updateTokenStylesheet();
+    this.connectSync();
+    this.upgradeStoredValue(this.pendingUpgrade);
+    this.applyPendingData();
+    this.removeTask = this.scheduler.add(this.task);
+    this.events.emit('change', {
+      theme: this.state.theme,
+      mode: this.state.mode,
+      previousTheme: null,
+      previousMode: null,
+      reason: 'init',
+      timestamp: getCurrentTime(this.config).getTime(),
+    });
+
+    // Catch up on boundaries and expiries passed since the state was read
+    this.refresh('init');
+    this.updateSchedule();
+  }
+
+  /**
+   * Stop scheduling, syncing and listening for changes
+   * Listeners added with subscribe() are kept
+   */
+  destroy(): void {
+    if (!this.started) {
+      return;
+    }
+    this.started = false;
+
+    this.removeTask?.();
+    this.removeTask = null;
+    this.unsubscribeSystem?.();
+    this.unsubscribeSystem = null;
+    this.disconnectAmbient();
+    this.sync?.close();
+    this.sync = null;
+    this.removeTokenStylesheet?.();
+    this.removeTokenStylesheet = null;
+  }
+
+  /**
+   * Replace the configuration
+   * Reschedules, re-applies and reconnects only for the options that changed
+   * @param config - Theme configuration options
+   */
+  setConfig(config: Partial<ThemeConfig>): void {
+    const previous = this.config;
+    this.baseConfig = resolveConfig(config);
+    this.config = applyUserSchedule(this.baseConfig, this.state.schedule);
+    if (!this.started) {
+      return;
+    }
+
+    if (getSyncKey(previous) !== getSyncKey(this.config)) {
+      this.connectSync();
+    }
+    if (getDomKey(previous) !== getDomKey(this.config)) {
+      this.applyToDom(this.state.theme);
+      this.updateTokenStylesheet();
+    }
+    // Readings of a replaced light source no longer apply
+    const sourceChanged =
+      previous.ambient?.sensor !== this.config.ambient?.sensor ||
+      previous.ambient?.frequency !== this.config.ambient?.frequency;
+    if (sourceChanged) {
+      this.disconnectAmbient();
+    }
+    if (sourceChanged || getScheduleKey(previous) !== getScheduleKey(this.config)) {
+      this.refresh('config');
+      this.updateSchedule();
+    }
+  }
+
+  /**
+   * Set the mode and update storage
+   * @param mode - Mode to set
+   * @param duration - How long a manual mode lasts (defaults to config.overrideDuration)
+   */
+  setMode(mode: Mode, duration?: OverrideDuration): void {
+    this.applyMode(mode, duration, 'user');
+  }
+
+  /**
+   * Switch to the next available theme
+   * @param duration - How long the override lasts
+   */
+  toggleTheme(duration?: OverrideDuration): void {
+    this.setMode(getNextTheme(this.state.theme, this.getThemes()), duration);
+  }
+
+  /**
+   * Choose the daily light and dark start times, replacing the configured
+   * daily schedule, and persist them with the mode
+   * @param schedule - Light and dark start times
+   * @returns false if the times are invalid or equal, in which case nothing changes
+   */
+  setSchedule(schedule: UserSchedule): boolean {
+    if (!isValidUserSchedule(schedule)) {
+      return false;
+    }
+    const normalized = normalizeUserSchedule(schedule);
+    this.persist({ ...this.state, schedule: normalized });
+    this.applySchedule(normalized, 'user');
+    return true;
+  }
+
+  /**
+   * Remove the user's schedule and return to the configured one
+   */
+  resetSchedule(): void {
+    this.persist({ ...this.state, schedule: null });
+    this.applySchedule(null, 'user');
+  }
+
+  /**
+   * Re-evaluate the state at the current time: revert a lapsed override,
+   * complete an ambient light switch that waited its dwell time, and
+   * recalculate the theme and blend progress of an automatic mode, applying
+   * them if they changed
+   * @param reason - Reason of the resulting change event
+   */
+  refresh(reason: ThemeChangeReason = 'schedule'): void {
+    const { overrideUntil } = this.state;
+    const now = getCurrentTime(this.config).getTime();
+    if (overrideUntil && overrideUntil <= now) {
+      this.applyMode('auto', undefined, reason);
+      return;
+    }
+    this.ambient = updateAmbientState(this.ambient, this.ambient.lux, this.config.ambient, now);
+    if (!isAutomaticMode(this.state.mode)) {
+      return;
+    }
+
+    const { theme, progress } = this.resolveMode(this.state.mode);
+    if (theme !== this.state.theme) {
+      this.commit({ ...this.state, theme, progress }, reason);
+    } else if (progress !== this.state.progress) {
+      this.updateProgress(progress);
+    }
+  }
+
+  /**
+   * Set the mode, update storage and tell other tabs
+   */
+  private applyMode(mode: Mode, duration: OverrideDuration | undefined, reason: ThemeChangeReason): void {
+    // Start with the sensor's current reading rather than the schedule
+    if (mode === 'ambient' && this.started) {
+      this.connectAmbient();
+    }
+    const resolved = this.resolveMode(mode);
+    this.modeChanged = true;
+
+    // Anything that isn't a valid duration (e.g., a click event) falls back
+    // to the configured one
+    const overrideUntil =
+      mode === 'auto'
+        ? null
+        : resolveOverrideExpiry(duration, this.config) ??
+          resolveOverrideExpiry(this.config.overrideDuration, this.config);
+
+    const schedule = this.state.schedule ?? null;
+    this.persist({ mode, overrideUntil, schedule });
+    this.commit({ mode, ...resolved, overrideUntil, schedule }, reason);
+  }
+
+  /**
+   * Store the mode selection and the user's schedule, and tell other tabs
+   */
+  private persist({
+    mode,
+    overrideUntil,
+    schedule,
+  }: Pick<ThemeState, 'mode' | 'overrideUntil' | 'schedule'>): void {
+    const { storageKey, storage } = this.baseConfig;
+    const preference = {
+      // 'auto' isn't stored, so the default mode applies again on reload
+      mode: mode === 'auto' ? null : mode,
+      until: overrideUntil ?? null,
+      schedule: schedule ?? null,
+      updatedAt: getCurrentTime(this.config).getTime(),
+    };
+
+    if (preference.mode === null && preference.schedule === null) {
+      clearStoredMode(storageKey, storage);
+    } else {
+      storePreference(preference, storageKey, storage);
+    }
+    this.sync?.publish(serializePreference(preference));
+  }
+
+  /**
+   * Switch to a user's schedule (or back to the configured one) and
+   * re-evaluate the theme, which also reschedules the next boundary
+   */
+  private applySchedule(schedule: UserSchedule | null, reason: ThemeChangeReason): void {
+    this.scheduleChanged = true;
+    this.config = applyUserSchedule(this.baseConfig, schedule);
+    const resolved = this.resolveMode(this.state.mode);
+    this.commit(
+      { ...this.state, ...resolved, schedule },
+      resolved.theme !== this.state.theme ? reason : null
+    );
+  }
+
+  /**
+   * Calculate the theme and blend progress of a mode at the current time
+   */
+  private resolveMode(mode: Mode): { theme: Theme; progress: number } {
+    const systemTheme = getSystemTheme();
+    const ambientTheme = this.ambient.theme;
+    return {
+      theme: calculateTheme(mode, this.config, systemTheme, ambientTheme),
+      progress: calculateProgress(mode, this.config, systemTheme, ambientTheme),
+    };
+  }
+
+  /**
+   * Read the stored mode selection and user's schedule for the initial state
+   * Asynchronous adapters start with the default mode and the configured
+   * schedule until the read resolves
+   */
+  private readInitialState(): ThemeState {
+    const stored = readStoredData(
+      this.baseConfig.storageKey,
+      this.getThemes(),
+      this.baseConfig.storage,
+      getCurrentTime(this.baseConfig).getTime(),
+      this.baseConfig
+    );
+
+    let preference: StoredPreference<Theme> | null = null;
+    let schedule: UserSchedule | null = null;
+    if (isPromise(stored)) {
+      this.pendingData = stored;
+    } else {
+      ({ preference, schedule } = stored);
+      this.pendingUpgrade = stored.upgrade;
+    }
+
+    this.config = applyUserSchedule(this.baseConfig, schedule);
+    const mode = preference?.mode ?? this.config.defaultMode;
+    return { mode, ...this.resolveMode(mode), overrideUntil: preference?.until ?? null, schedule };
+  }
+
+  /**
+   * Apply the stored mode and user's schedule once an asynchronous storage
+   * read resolves, unless they were set meanwhile
+   */
+  private applyPendingData(): void {
+    const pendingData = this.pendingData;
+    if (!pendingData) {
+      return;
+    }
+
+    pendingData.then((stored) => {
+      if (!this.started || this.pendingData !== pendingData) {
+        return;
+      }
+      this.pendingData = null;
+      this.upgradeStoredValue(stored.upgrade);
+      const preference = this.modeChanged ? null : stored.preference;
+      const schedule = this.scheduleChanged ? this.state.schedule ?? null : stored.schedule;
+      if (!preference && isSameSchedule(schedule, this.state.schedule)) {
+        return;
+      }
+
+      const mode = preference?.mode ?? this.state.mode;
+      this.config = applyUserSchedule(this.baseConfig, schedule);
+      const resolved = this.resolveMode(mode);
+      this.commit(
+        {
+          mode,
+          ...resolved,
+          overrideUntil: preference ? preference.until : this.state.overrideUntil ?? null,
+          schedule,
+        },
+        mode !== this.state.mode || resolved.theme !== this.state.theme ? 'init' : null
+      );
+    });
+  }
+
+  /**
+   * Move a stored value read in an older format or under a previous key to
+   * the storage key, unless the mode or schedule was stored since
+   */
+  private upgradeStoredValue(upgrade: (() => void) | null): void {
+    this.pendingUpgrade = null;
+    if (upgrade && !this.modeChanged && !this.scheduleChanged) {
+      upgrade();
+    }
+  }
+
+  /**
+   * Store a new state, apply it and notify listeners
+   * @param state - New state
+   * @param reason - Reason of the change event, or null to skip it (when
+   * neither the theme nor the mode changed)
+   */
+  private commit(state: ThemeState, reason: ThemeChangeReason | null): void {
+    const previous = this.state;
+    this.state = state;
+    this.applyToDom(state.theme);
+
+    if (reason !== null) {
+      const event = {
+        theme: state.theme,
+        mode: state.mode,
+        previousTheme: previous.theme,
+        previousMode: previous.mode,
+        reason,
+        timestamp: getCurrentTime(this.config).getTime(),
+      };
+      this.config.onThemeChange?.(state.theme, state.mode, event);
+      this.events.emit('change', event);
+    }
+    this.listeners.forEach((listener) => listener(state));
+
+    if (this.started) {
+      this.updateSchedule();
+    }
+  }
+
+  /**
+   * Store a new blend progress within the same theme, apply it and notify listeners
+   */
+  private updateProgress(progress: number): void {
+    this.state = { ...this.state, progress };
+    this.applyProgress();
+    this.listeners.forEach((listener) => listener(this.state));
+    this.updateSchedule();
+  }
+
+  /**
+   * Resolve the container of a scoped controller
+   * @returns The container, null while it doesn't exist, or undefined when
+   * the controller isn't scoped
+   */
+  private getScopeElement(): HTMLElement | null | undefined {
+    if (!this.scope) {
+      return undefined;
+    }
+    return (typeof this.scope === 'function' ? this.scope() : this.scope) ?? null;
+  }
+
+  /**
+   * Apply a theme to the DOM, animating only actual switches
+   */
+  private applyToDom(theme: Theme): void {
+    const scopeElement = this.getScopeElement();
+    // Never fall back to the document while the container doesn't exist
+    if (!this.started || scopeElement === null || typeof document === 'undefined') {
+      return;
+    }
+
+    const previousTheme = this.appliedTheme;
+    this.appliedTheme = theme;
+    applyThemeToDom(
+      theme,
+      this.config,
+      previousTheme !== null && previousTheme !== theme,
+      scopeElement
+    );
+    this.applyProgress();
+  }
+
+  /**
+   * Write the blend progress as a CSS custom property, when a twilight
+   * window is configured
+   */
+  private applyProgress(): void {
+    const { twilight } = this.config;
+    const scopeElement = this.getScopeElement();
+    if (!this.started || !twilight || scopeElement === null || typeof document === 'undefined') {
+      return;
+    }
+
+    const target =
+      scopeElement ?? (this.config.applyTo === 'html' ? document.documentElement : document.body);
+    const progress = Math.round((this.state.progress ?? 0) * 1000) / 1000;
+    target?.style.setProperty(twilight.property ?? DEFAULT_TWILIGHT_PROPERTY, String(progress));
+  }
+
+  /**
+   * Inject the token stylesheet when configured, removing a previous one
+   */
+  private updateTokenStylesheet(): void {
+    this.removeTokenStylesheet?.();
+    this.removeTokenStylesheet = null;
+    if (!this.scope && this.config.tokens && this.config.tokenStrategy === 'stylesheet') {
+      this.removeTokenStylesheet = injectTokenStylesheet(this.config);
+    }
+  }
+
+  /**
+   * Sync the mode and the user's schedule with other tabs and windows,
+   * while enabled
+   */
+  private connectSync(): void {
+    this.sync?.close();
+    this.sync = null;
+    if (this.config.syncTabs === false) {
+      return;
+    }
+
+    const storageType = this.config.storage ? this.config.storage.type : 'localStorage';
+    this.sync = createModeSync(this.config.storageKey, storageType, this.applyExternalValue);
+  }
+
+  /**
+   * Apply a mode or schedule set in another tab, without storing or
+   * publishing it again
+   */
+  private applyExternalValue = (value: string | null): void => {
+    const stored = parseStoredData(
+      value,
+      this.getThemes(),
+      getCurrentTime(this.config).getTime(),
+      this.baseConfig.storageMigrations,
+      this.baseConfig.storageKey
+    );
+    // Ignore unreadable values; legacy ones always name a mode
+    if (value !== null && (stored.version === null || (stored.version === 0 && !stored.preference))) {
+      return;
+    }
+    // A removed value, or one without a mode, means the other tab switched to auto
+    const { mode, until: overrideUntil } = stored.preference ?? { mode: 'auto' as Mode, until: null };
+    const { schedule } = stored;
+    this.modeChanged = true;
+    this.scheduleChanged = true;
+
+    if (!isSameSchedule(schedule, this.state.schedule)) {
+      this.config = applyUserSchedule(this.baseConfig, schedule);
+    } else if (mode === this.state.mode) {
+      if ((this.state.overrideUntil ?? null) !== overrideUntil) {
+        this.commit({ ...this.state, overrideUntil }, null);
+      }
+      return;
+    }
+
+    const resolved = this.resolveMode(mode);
+    this.commit(
+      { mode, ...resolved, overrideUntil, schedule },
+      mode !== this.state.mode || resolved.theme !== this.state.theme ? 'storage-sync' : null
+    );
+  };
+
+  /**
+   * Read the light sensor while in 'ambient' mode
+   */
+  private connectAmbient(): void {
+    if (this.ambientSource) {
+      return;
+    }
+    const source =
+      this.config.ambient?.sensor ?? createAmbientLightSensor(this.config.ambient?.frequency);
+    // Set before subscribing, as sources may report a reading right away
+    this.ambientSource = source;
+    const unsubscribe = source.subscribe(this.handleAmbientReading);
+    if (this.ambientSource === source) {
+      this.unsubscribeAmbient = unsubscribe;
+    } else {
+      unsubscribe();
+    }
+  }
+
+  /**
+   * Stop reading the light sensor and forget its readings
+   */
+  private disconnectAmbient(): void {
+    const unsubscribe = this.unsubscribeAmbient;
+    this.ambientSource = null;
+    this.unsubscribeAmbient = null;
+    this.ambient = INITIAL_AMBIENT_STATE;
+    unsubscribe?.();
+  }
+
+  /**
+   * Apply a light sensor reading; null falls back to the schedule
+   */
+  private handleAmbientReading = (lux: number | null): void => {
+    if (!this.started || !this.ambientSource) {
+      return;
+    }
+    this.ambient = updateAmbientState(
+      this.ambient,
+      lux,
+      this.config.ambient,
+      getCurrentTime(this.config).getTime()
+    );
+    this.refresh('ambient');
+    this.updateDueTime();
+    this.scheduler.update();
+  };
+
+  /**
+   * Check run by the scheduler at the next boundary or override expiry, and
+   * after clock changes and wake-ups
+   */
+  private readonly task: ScheduledTask = {
+    now: () => getCurrentTime(this.config).getTime(),
+    getDueTime: () => this.dueTime,
+    run: (trigger) => {
+      this.refresh(trigger === 'wake' ? 'visibility' : 'schedule');
+      this.updateDueTime();
+    },
+  };
+
+  /**
+   * Calculate when the next boundary, twilight update, ambient light switch
+   * or override expiry is due
+   */
+  private updateDueTime(): void {
+    const { mode, overrideUntil } = this.state;
+    const now = getCurrentTime(this.config);
+    const dueTimes = isAutomaticMode(mode)
+      ? [getNextScheduledBoundary(this.config, now).getTime(), getNextTwilightUpdate(this.config, now)]
+      : [];
+    if (mode === 'ambient') {
+      dueTimes.push(getAmbientDueTime(this.ambient, this.config.ambient));
+    }
+    if (overrideUntil) {
+      dueTimes.push(overrideUntil);
+    }
+
+    const validDueTimes = dueTimes.filter((time): time is number => time !== null);
+    this.dueTime = validDueTimes.length > 0 ? Math.min(...validDueTimes) : null;
+  }
+
+  /**
+   * Reschedule the next check, and follow the OS color scheme and the light
+   * sensor while the mode depends on them
+   */
+  private updateSchedule(): void {
+    if (this.state.mode === 'ambient') {
+      this.connectAmbient();
+    } else if (this.ambientSource) {
+      this.disconnectAmbient();
+    }
+    this.updateDueTime();
+
+    const followsSystem = followsSystemTheme(this.state.mode, this.config);
+    if (followsSystem && !this.unsubscribeSystem) {
+      this.unsubscribeSystem = subscribeToSystemTheme(() => this.refresh('system'));
+    } else if (!followsSystem && this.unsubscribeSystem) {
+      this.unsubscribeSystem();
+      this.unsubscribeSystem = null;
+    }
+
+    this.scheduler.update();
+  }
+}
+
+export default ThemeController;
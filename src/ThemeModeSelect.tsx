@@ -0,0 +1,195 @@
+/**
+ * ThemeModeSelect for react-auto-time-theme
+ * Accessible radio group choosing between 'auto' and manual themes
+ */
+
+import React, { useRef } from 'react';
+import { Mode, OverrideDuration } from './types';
+import { useAutoTheme } from './useAutoTheme';
+import { AutoStatus, useAutoStatus } from './autoStatus';
+
+/**
+ * Modes offered by default
+ */
+const DEFAULT_MODES: Mode[] = ['auto', 'light', 'dark'];
+
+/**
+ * Labels of the built-in modes; other themes are labelled with their name
+ */
+const DEFAULT_LABELS: Record<string, string> = {
+  auto: 'Auto',
+  system: 'System',
+  ambient: 'Ambient',
+  light: 'Light',
+  dark: 'Dark',
+};
+
+/**
+ * State of one option, passed to the renderOption render prop
+ */
+export interface ThemeModeOptionState {
+  /** Mode the option selects */
+  mode: Mode;
+  /** Label of the option */
+  label: string;
+  /** Whether the option is the current mode */
+  checked: boolean;
+  /** What 'auto' resolves to and when it next switches */
+  auto: AutoStatus & { nextChangeLabel: string | null };
+}
+
+/**
+ * ThemeModeSelect Props
+ * Other div props (className, style, data attributes, ...) are passed to
+ * the rendered radio group
+ */
+interface ThemeModeSelectProps
+  extends Omit<React.HTMLAttributes<HTMLDivElement>, 'children' | 'role' | 'onChange'> {
+  /**
+   * Modes to offer, in order
+   * @default ["auto", "light", "dark"]
+   */
+  modes?: Mode[];
+  /** Labels of the options, by mode */
+  labels?: Partial<Record<string, string>>;
+  /**
+   * Accessible name of the radio group (when aria-labelledby isn't passed)
+   * @default "Theme"
+   */
+  label?: string;
+  /** How long a manual selection lasts (defaults to the overrideDuration option) */
+  duration?: OverrideDuration;
+  /** Called after an option was selected */
+  onChange?: (mode: Mode) => void;
+  /** Render the content of an option instead of its label (and auto status) */
+  renderOption?: (option: ThemeModeOptionState) => React.ReactNode;
+}
+
+/**
+ * ThemeModeSelect component
+ * Renders a role="radiogroup" of <button role="radio"> options following
+ * the ARIA radio group pattern: Tab focuses the selected option, arrow keys
+ * select the previous or next one (wrapping around), Home and End the first
+ * and last. The 'auto' option shows what 'auto' resolves to and when it
+ * switches next. Unstyled: use aria-checked and data-mode in CSS.
+ *
+ * @example
+ * <ThemeModeSelect className="theme-modes" />
+ *
+ * @example
+ * <ThemeModeSelect
+ *   modes={['auto', 'system', 'light', 'dark']}
+ *   renderOption={({ mode, label }) => <><ModeIcon mode={mode} /> {label}</>}
+ * />
+ */
+export const ThemeModeSelect: React.FC<ThemeModeSelectProps> = ({
+  modes = DEFAULT_MODES,
+  labels,
+  label = 'Theme',
+  duration,
+  onChange,
+  renderOption,
+  onKeyDown,
+  ...groupProps
+}) => {
+  const { mode: currentMode, setAuto, setTheme, setSystem, setAmbient } = useAutoTheme();
+  const auto = useAutoStatus();
+  const optionRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+  const checkedIndex = modes.indexOf(currentMode);
+  // Without a selected option, the first one is reachable with Tab
+  const focusableIndex = checkedIndex === -1 ? 0 : checkedIndex;
+
+  const select = (mode: Mode) => {
+    if (mode === 'auto') {
+      setAuto();
+    } else if (mode === 'system') {
+      setSystem(duration);
+    } else if (mode === 'ambient') {
+      setAmbient(duration);
+    } else {
+      setTheme(mode, duration);
+    }
+    onChange?.(mode);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    onKeyDown?.(event);
+    if (event.defaultPrevented || modes.length === 0) {
+      return;
+    }
+
+    const from = optionRefs.current.findIndex((option) => option === event.target);
+    const start = from === -1 ? focusableIndex : from;
+    let index: number;
+    switch (event.key) {
+      case 'ArrowRight':
+      case 'ArrowDown':
+        index = (start + 1) % modes.length;
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        index = (start - 1 + modes.length) % modes.length;
+        break;
+      case 'Home':
+        index = 0;
+        break;
+      case 'End':
+        index = modes.length - 1;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    optionRefs.current[index]?.focus();
+    select(modes[index]);
+  };
+
+  return (
+    <div
+      aria-label={groupProps['aria-labelledby'] ? undefined : label}
+      {...groupProps}
+      role="radiogroup"
+      data-mode={currentMode}
+      onKeyDown={handleKeyDown}
+    >
+      {modes.map((mode, index) => {
+        const optionLabel = labels?.[mode] ?? DEFAULT_LABELS[mode] ?? mode;
+        const checked = index === checkedIndex;
+        return (
+          <button
+            key={mode}
+            ref={(option) => {
+              optionRefs.current[index] = option;
+            }}
+            type="button"
+            role="radio"
+            aria-checked={checked}
+            tabIndex={index === focusableIndex ? 0 : -1}
+            data-mode={mode}
+            onClick={() => select(mode)}
+          >
+            {renderOption ? (
+              renderOption({ mode, label: optionLabel, checked, auto })
+            ) : (
+              <>
+                <span data-part="label">{optionLabel}</span>
+                {mode === 'auto' && (
+                  // Depends on the current time and the browser's locale
+                  <span data-part="auto-status" suppressHydrationWarning>
+                    {' '}
+                    ({auto.theme}
+                    {auto.nextChangeLabel && ` until ${auto.nextChangeLabel}`})
+                  </span>
+                )}
+              </>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ThemeModeSelect;
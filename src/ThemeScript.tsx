@@ -0,0 +1,53 @@
+/**
+ * ThemeScript for react-auto-time-theme
+ * Renders the inline bootstrap script that applies the theme before paint
+ */
+
+import React from 'react';
+import { ThemeConfig } from './types';
+import { getThemeScript } from './inlineScript';
+import { getTokenStylesheet } from './tokens';
+import { resolveConfig } from './config';
+import { TOKEN_STYLE_ID } from './constants';
+
+/**
+ * ThemeScript Props
+ */
+interface ThemeScriptProps {
+  /** Theme configuration options (same as passed to AutoThemeProvider) */
+  config?: Partial<ThemeConfig>;
+  /** Nonce for Content Security Policies that restrict inline scripts */
+  nonce?: string;
+}
+
+/**
+ * ThemeScript component
+ * Place it in <head> (or at the start of <body> when applyTo is 'body')
+ * so it runs before the page is painted.
+ * With the 'stylesheet' token strategy it also renders the token stylesheet.
+ */
+export const ThemeScript: React.FC<ThemeScriptProps> = ({ config, nonce }) => {
+  const resolvedConfig = resolveConfig(config);
+  const hasTokenStylesheet =
+    resolvedConfig.tokens !== undefined && resolvedConfig.tokenStrategy === 'stylesheet';
+
+  return (
+    <>
+      {hasTokenStylesheet && (
+        <style
+          id={TOKEN_STYLE_ID}
+          nonce={nonce}
+          dangerouslySetInnerHTML={{ __html: getTokenStylesheet(resolvedConfig) }}
+        />
+      )}
+      <script
+        nonce={nonce}
+        // The embedded sunrise/sunset window depends on the render date
+        suppressHydrationWarning
+        dangerouslySetInnerHTML={{ __html: getThemeScript(resolvedConfig) }}
+      />
+    </>
+  );
+};
+
+export default ThemeScript;
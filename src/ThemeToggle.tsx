@@ -0,0 +1,111 @@
+/**
+ * ThemeToggle for react-auto-time-theme
+ * Accessible switch between the light and dark themes
+ */
+
+import React from 'react';
+import { Theme, Mode, OverrideDuration } from './types';
+import { useAutoTheme } from './useAutoTheme';
+import { AutoStatus, useAutoStatus } from './autoStatus';
+
+/**
+ * State passed to the ThemeToggle render prop
+ */
+export interface ThemeToggleState {
+  /** Current theme */
+  theme: Theme;
+  /** Current mode */
+  mode: Mode;
+  /** Whether the switch is on (the dark theme is shown) */
+  checked: boolean;
+  /** What 'auto' resolves to and when it next switches */
+  auto: AutoStatus & { nextChangeLabel: string | null };
+}
+
+/**
+ * ThemeToggle Props
+ * Other button props (className, style, data attributes, ...) are passed
+ * to the rendered <button>
+ */
+interface ThemeToggleProps
+  extends Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, 'children' | 'role' | 'type'> {
+  /**
+   * Visible label, also the switch's accessible name
+   * @default "Dark theme"
+   */
+  label?: React.ReactNode;
+  /** How long the manual selection lasts (defaults to the overrideDuration option) */
+  duration?: OverrideDuration;
+  /** Render the button's content instead of the label and auto status */
+  children?: (state: ThemeToggleState) => React.ReactNode;
+}
+
+/**
+ * ThemeToggle component
+ * Renders a <button role="switch"> that is checked while the dark theme is
+ * shown; clicking it (or pressing Space or Enter) selects the other theme
+ * as a manual mode. In 'auto' mode the label is followed by what 'auto'
+ * shows and when it switches next. Unstyled: use the data-theme and
+ * data-mode attributes, or aria-checked, in CSS.
+ *
+ * @example
+ * <ThemeToggle className="theme-switch" />
+ *
+ * @example
+ * <ThemeToggle aria-label="Dark theme">
+ *   {({ checked }) => (checked ? '🌙' : '☀️')}
+ * </ThemeToggle>
+ */
+export const ThemeToggle: React.FC<ThemeToggleProps> = ({
+  label = 'Dark theme',
+  duration,
+  children,
+  onClick,
+  ...buttonProps
+}) => {
+  const { theme, mode, setLight, setDark } = useAutoTheme();
+  const auto = useAutoStatus();
+  const checked = theme === 'dark';
+
+  const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
+    onClick?.(event);
+    if (event.defaultPrevented) {
+      return;
+    }
+    if (checked) {
+      setLight(duration);
+    } else {
+      setDark(duration);
+    }
+  };
+
+  return (
+    <button
+      {...buttonProps}
+      type="button"
+      role="switch"
+      aria-checked={checked}
+      data-theme={theme}
+      data-mode={mode}
+      onClick={handleClick}
+    >
+      {children ? (
+        children({ theme, mode, checked, auto })
+      ) : (
+        <>
+          <span data-part="label">{label}</span>
+          {mode === 'auto' && (
+            // Depends on the current time and the browser's locale
+            <span data-part="auto-status" suppressHydrationWarning>
+              {' '}
+              (Auto: {auto.theme}
+              {auto.nextChangeLabel && ` until ${auto.nextChangeLabel}`})
+            </span>
+          )}
+        </>
+      )}
+    </button>
+  );
+};
+
+export default ThemeToggle;
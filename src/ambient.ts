@@ -0,0 +1,191 @@
+/**
+ * Ambient light for react-auto-time-theme
+ * Turns room brightness readings into a theme, with hysteresis between the
+ * thresholds and a dwell time so readings around them don't make it flap
+ */
+
+import { AmbientConfig, AmbientLightSource, DefaultTheme } from './types';
+import {
+  DEFAULT_AMBIENT_DARK_BELOW,
+  DEFAULT_AMBIENT_LIGHT_ABOVE,
+  DEFAULT_AMBIENT_DWELL,
+  DEFAULT_AMBIENT_FREQUENCY,
+} from './constants';
+
+/**
+ * The parts of the Generic Sensor API used here
+ */
+interface LightSensor {
+  illuminance?: number | null;
+  start(): void;
+  stop(): void;
+  addEventListener(type: 'reading' | 'error', listener: () => void): void;
+  removeEventListener(type: 'reading' | 'error', listener: () => void): void;
+}
+
+type LightSensorConstructor = new (options?: { frequency?: number }) => LightSensor;
+
+/**
+ * Settled ambient theme and the switch readings are waiting on
+ */
+export interface AmbientState {
+  /** Theme the light level settled on, or null without a reading */
+  theme: DefaultTheme | null;
+  /** Theme the readings indicate instead, and since when (ms) */
+  pending: { theme: DefaultTheme; since: number } | null;
+  /** Latest illuminance (in lux) */
+  lux: number | null;
+}
+
+/**
+ * State without any reading
+ */
+export const INITIAL_AMBIENT_STATE: AmbientState = { theme: null, pending: null, lux: null };
+
+/**
+ * Create a light source reading the AmbientLightSensor API
+ * Reports null when the API is missing, the permission is denied or the
+ * sensor fails
+ * @param frequency - Readings per second
+ * @returns Ambient light source
+ */
+export const createAmbientLightSensor = (
+  frequency: number = DEFAULT_AMBIENT_FREQUENCY
+): AmbientLightSource => ({
+  subscribe: (listener) => {
+    const Sensor =
+      typeof window !== 'undefined'
+        ? (window as unknown as { AmbientLightSensor?: LightSensorConstructor }).AmbientLightSensor
+        : undefined;
+    if (typeof Sensor !== 'function') {
+      listener(null);
+      return () => {};
+    }
+
+    let sensor: LightSensor;
+    try {
+      sensor = new Sensor({ frequency });
+    } catch (error) {
+      // Blocked by a permissions policy
+      listener(null);
+      return () => {};
+    }
+
+    const handleReading = () => {
+      listener(typeof sensor.illuminance === 'number' ? sensor.illuminance : null);
+    };
+    const handleError = () => listener(null);
+
+    sensor.addEventListener('reading', handleReading);
+    sensor.addEventListener('error', handleError);
+    sensor.start();
+
+    return () => {
+      sensor.removeEventListener('reading', handleReading);
+      sensor.removeEventListener('error', handleError);
+      sensor.stop();
+    };
+  },
+});
+
+/**
+ * Get the theme indicated by a light level
+ * @param lux - Illuminance (in lux)
+ * @param current - Current ambient theme, kept between the thresholds
+ * @param ambient - Ambient light options
+ * @returns 'dark' below darkBelow, 'light' above lightAbove, otherwise the
+ * current theme (or the closer threshold's theme without one)
+ */
+export const getAmbientTheme = (
+  lux: number,
+  current: DefaultTheme | null,
+  ambient: AmbientConfig = {}
+): DefaultTheme => {
+  const { darkBelow = DEFAULT_AMBIENT_DARK_BELOW, lightAbove = DEFAULT_AMBIENT_LIGHT_ABOVE } =
+    ambient;
+  if (lux < darkBelow) {
+    return 'dark';
+  }
+  if (lux > lightAbove) {
+    return 'light';
+  }
+  return current ?? (lux < (darkBelow + lightAbove) / 2 ? 'dark' : 'light');
+};
+
+/**
+ * Apply a reading to the ambient state
+ * The first reading settles the theme at once; after that, readings have
+ * to indicate the other theme for the whole dwell time before it switches
+ * @param state - Current ambient state
+ * @param lux - Illuminance (in lux), or null without a sensor
+ * @param ambient - Ambient light options
+ * @param now - Time of the reading (ms)
+ * @returns New ambient state (the same object when nothing changed)
+ */
+export const updateAmbientState = (
+  state: AmbientState,
+  lux: number | null,
+  ambient: AmbientConfig = {},
+  now: number
+): AmbientState => {
+  if (lux === null || !Number.isFinite(lux)) {
+    return INITIAL_AMBIENT_STATE;
+  }
+
+  const theme = getAmbientTheme(lux, state.theme, ambient);
+  if (state.theme === null || theme === state.theme) {
+    return state.theme === theme && state.pending === null && state.lux === lux
+      ? state
+      : { theme, pending: null, lux };
+  }
+
+  const since = state.pending?.theme === theme ? state.pending.since : now;
+  if (now - since >= (ambient.dwell ?? DEFAULT_AMBIENT_DWELL) * 1000) {
+    return { theme, pending: null, lux };
+  }
+  return {
+    theme: state.theme,
+    pending: state.pending?.theme === theme ? state.pending : { theme, since },
+    lux,
+  };
+};
+
+/**
+ * Get when a pending switch has waited the dwell time
+ * @param state - Ambient state
+ * @param ambient - Ambient light options
+ * @returns Timestamp (ms), or null without a pending switch
+ */
+export const getAmbientDueTime = (state: AmbientState, ambient: AmbientConfig = {}): number | null => {
+  return state.pending
+    ? state.pending.since + (ambient.dwell ?? DEFAULT_AMBIENT_DWELL) * 1000
+    : null;
+};
+
+/**
+ * Validate ambient light options
+ * @param ambient - Ambient light options
+ * @returns true if the thresholds are non-negative and in order, the dwell
+ * time is non-negative and the frequency is positive
+ */
+export const isValidAmbientConfig = (ambient: AmbientConfig): boolean => {
+  const {
+    darkBelow = DEFAULT_AMBIENT_DARK_BELOW,
+    lightAbove = DEFAULT_AMBIENT_LIGHT_ABOVE,
+    dwell = DEFAULT_AMBIENT_DWELL,
+    frequency = DEFAULT_AMBIENT_FREQUENCY,
+    sensor,
+  } = ambient;
+  return (
+    Number.isFinite(darkBelow) &&
+    Number.isFinite(lightAbove) &&
+    darkBelow >= 0 &&
+    lightAbove >= darkBelow &&
+    Number.isFinite(dwell) &&
+    dwell >= 0 &&
+    Number.isFinite(frequency) &&
+    frequency > 0 &&
+    (sensor === undefined ||
+      (typeof sensor === 'object' && sensor !== null && typeof sensor.subscribe === 'function'))
+  );
+};
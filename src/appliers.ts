@@ -0,0 +1,237 @@
+/**
+ * Theme appliers for react-auto-time-theme
+ * Write the active theme to the document as attributes, classes, style
+ * properties or meta tags
+ */
+
+import {
+  ApplierTarget,
+  AttributeApplier,
+  ClassApplier,
+  StyleApplier,
+  MetaApplier,
+  CallbackApplier,
+  ThemeApplier,
+} from './types';
+
+/**
+ * Create an applier that sets an attribute
+ * @param name - Attribute name (defaults to 'data-theme')
+ * @param options - Target and per-theme values
+ * @returns Attribute applier
+ */
+export const createAttributeApplier = <T extends string = 'light' | 'dark'>(
+  name = 'data-theme',
+  options: Omit<AttributeApplier<T>, 'type' | 'name'> = {}
+): AttributeApplier<T> => ({ type: 'attribute', name, ...options });
+
+/**
+ * Create an applier that toggles a class per theme
+ * @param options - Target and per-theme class names
+ * @returns Class applier
+ */
+export const createClassApplier = <T extends string = 'light' | 'dark'>(
+  options: Omit<ClassApplier<T>, 'type'> = {}
+): ClassApplier<T> => ({ type: 'class', ...options });
+
+/**
+ * Create an applier that sets a CSS property on the target's inline style
+ * @param property - CSS property name
+ * @param options - Target and per-theme values
+ * @returns Style applier
+ */
+export const createStyleApplier = <T extends string = 'light' | 'dark'>(
+  property: string,
+  options: Omit<StyleApplier<T>, 'type' | 'property'> = {}
+): StyleApplier<T> => ({ type: 'style', property, ...options });
+
+/**
+ * Create an applier that sets the CSS color-scheme property, so scrollbars
+ * and form controls match the theme
+ * @param options - Target and per-theme values (map custom themes to 'light' or 'dark')
+ * @returns Style applier
+ */
+export const createColorSchemeApplier = <T extends string = 'light' | 'dark'>(
+  options: Omit<StyleApplier<T>, 'type' | 'property'> = {}
+): StyleApplier<T> => ({
+  type: 'style',
+  property: 'color-scheme',
+  ...options,
+  values: options.values ?? ({ light: 'light', dark: 'dark' } as Partial<Record<T, string>>),
+});
+
+/**
+ * Create an applier that sets the content of a <meta> tag
+ * @param name - Meta name
+ * @param values - Content per theme
+ * @returns Meta applier
+ */
+export const createMetaApplier = <T extends string = 'light' | 'dark'>(
+  name: string,
+  values: Partial<Record<T, string>>
+): MetaApplier<T> => ({ type: 'meta', name, values });
+
+/**
+ * Create an applier that sets <meta name="theme-color">, which colors the
+ * browser UI on mobile
+ * @param colors - Color per theme
+ * @returns Meta applier
+ */
+export const createThemeColorApplier = <T extends string = 'light' | 'dark'>(
+  colors: Partial<Record<T, string>>
+): MetaApplier<T> => createMetaApplier('theme-color', colors);
+
+/**
+ * Create an applier that calls a function with the theme
+ * @param apply - Function to call
+ * @returns Callback applier
+ */
+export const createCallbackApplier = <T extends string = 'light' | 'dark'>(
+  apply: (theme: T) => void
+): CallbackApplier<T> => ({ type: 'callback', apply });
+
+/**
+ * Validate an applier
+ * @param applier - Applier to check
+ * @returns true if the applier has a known type and its required fields
+ */
+export const isValidApplier = (applier: ThemeApplier<string>): boolean => {
+  if (typeof applier !== 'object' || applier === null) {
+    return false;
+  }
+  switch (applier.type) {
+    case 'attribute':
+    case 'meta':
+      return typeof applier.name === 'string' && applier.name !== '';
+    case 'style':
+      return typeof applier.property === 'string' && applier.property !== '';
+    case 'class':
+      return true;
+    case 'callback':
+      return typeof applier.apply === 'function';
+    default:
+      return false;
+  }
+};
+
+/**
+ * Resolve the elements an applier writes to
+ * Invalid selectors match nothing
+ */
+const resolveTargets = (target: ApplierTarget, root: ParentNode): Element[] => {
+  if (typeof target !== 'string') {
+    return [target];
+  }
+  try {
+    return Array.from(root.querySelectorAll(target));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Split a class name option into individual classes
+ */
+const toClassList = (classNames: string | undefined): string[] => {
+  return (classNames ?? '').split(/\s+/).filter(Boolean);
+};
+
+/**
+ * Run one applier
+ */
+const runApplier = <T extends string>(
+  applier: ThemeApplier<T>,
+  theme: T,
+  themes: readonly T[],
+  defaultTarget: ApplierTarget,
+  root: ParentNode
+): void => {
+  switch (applier.type) {
+    case 'attribute': {
+      const value = applier.values?.[theme] ?? theme;
+      resolveTargets(applier.target ?? defaultTarget, root).forEach((element) => {
+        if (element.getAttribute(applier.name) !== value) {
+          element.setAttribute(applier.name, value);
+        }
+      });
+      break;
+    }
+    case 'class': {
+      const getClasses = (name: T) => toClassList(applier.classNames?.[name] ?? name);
+      const active = getClasses(theme);
+      const inactive = themes
+        .filter((name) => name !== theme)
+        .flatMap(getClasses)
+        .filter((className) => !active.includes(className));
+      resolveTargets(applier.target ?? defaultTarget, root).forEach((element) => {
+        element.classList.remove(...inactive);
+        element.classList.add(...active);
+      });
+      break;
+    }
+    case 'style': {
+      const value = applier.values ? applier.values[theme] : theme;
+      resolveTargets(applier.target ?? defaultTarget, root).forEach((element) => {
+        const { style } = element as HTMLElement;
+        if (!style) {
+          return;
+        }
+        if (value === undefined) {
+          style.removeProperty(applier.property);
+        } else {
+          style.setProperty(applier.property, value);
+        }
+      });
+      break;
+    }
+    case 'meta': {
+      const content = applier.values[theme];
+      if (content === undefined || !document.head) {
+        break;
+      }
+      const metas = Array.from(document.head.querySelectorAll('meta')).filter(
+        (meta) => meta.getAttribute('name') === applier.name
+      );
+      if (metas.length === 0) {
+        const meta = document.createElement('meta');
+        meta.setAttribute('name', applier.name);
+        document.head.appendChild(meta);
+        metas.push(meta);
+      }
+      metas.forEach((meta) => meta.setAttribute('content', content));
+      break;
+    }
+    case 'callback':
+      applier.apply(theme);
+      break;
+  }
+};
+
+/**
+ * Write a theme to the document with a list of appliers
+ * A failing applier doesn't keep the others from running
+ * @param theme - Theme to apply
+ * @param appliers - Appliers to run, in order
+ * @param themes - All available themes (to remove classes of inactive themes)
+ * @param defaultTarget - Target of appliers that don't specify one
+ * @param root - Node selector targets are resolved in (defaults to the document)
+ */
+export const applyTheme = <T extends string>(
+  theme: T,
+  appliers: readonly ThemeApplier<T>[],
+  themes: readonly T[],
+  defaultTarget: ApplierTarget = 'html',
+  root?: ParentNode
+): void => {
+  if (typeof document === 'undefined') {
+    return;
+  }
+
+  appliers.forEach((applier) => {
+    try {
+      runApplier(applier, theme, themes, defaultTarget, root ?? document);
+    } catch (error) {
+      console.warn('AutoThemeProvider: Theme applier failed.', error);
+    }
+  });
+};
@@ -0,0 +1,95 @@
+/**
+ * Auto mode status for react-auto-time-theme
+ * Resolves what 'auto' shows right now and when it next switches, for the
+ * prebuilt theme controls
+ */
+
+import { useContext } from 'react';
+import { ThemeConfig, DefaultTheme, Theme } from './types';
+import { ThemeContext } from './AutoThemeProvider';
+import { calculateTheme, followsSystemTheme, getCurrentTime } from './schedule';
+import { getNextTransition } from './transitions';
+import { getSystemTheme } from './systemTheme';
+import { useRenderAt } from './useAutoTheme';
+
+/**
+ * What 'auto' resolves to
+ */
+export interface AutoStatus<T extends string = Theme> {
+  /** Theme 'auto' resolves to right now */
+  theme: T;
+  /** Theme 'auto' switches to next, or null if it follows the OS preference */
+  nextTheme: T | null;
+  /** When 'auto' switches to nextTheme, or null if it follows the OS preference */
+  nextChange: Date | null;
+}
+
+/**
+ * Get what 'auto' resolves to and when it next switches
+ * @param config - Theme configuration
+ * @param systemTheme - OS color scheme preference, if known
+ * @param now - Instant to evaluate (defaults to the configured clock's time)
+ * @returns Auto mode status
+ */
+export const getAutoStatus = <T extends string>(
+  config: ThemeConfig<T>,
+  systemTheme: DefaultTheme | null = null,
+  now: Date = getCurrentTime(config)
+): AutoStatus<T> => {
+  const theme = calculateTheme('auto', config, systemTheme);
+  if (followsSystemTheme('auto', config) && systemTheme) {
+    return { theme, nextTheme: null, nextChange: null };
+  }
+
+  const next = getNextTransition(config, now);
+  return { theme, nextTheme: next?.theme ?? null, nextChange: next?.at ?? null };
+};
+
+/**
+ * Format when 'auto' next switches, in the configured time zone
+ * Includes the weekday when it's more than a day away
+ * @param date - Instant of the switch
+ * @param config - Theme configuration
+ * @param now - Current instant (defaults to the configured clock's time)
+ * @returns Localized time, e.g. "10:00 PM" or "Mon 7:00 AM"
+ */
+export const formatAutoChange = (
+  date: Date,
+  config: Pick<ThemeConfig, 'timeZone' | 'now'>,
+  now: Date = getCurrentTime(config)
+): string => {
+  return date.toLocaleTimeString(undefined, {
+    weekday: date.getTime() - now.getTime() >= 24 * 60 * 60 * 1000 ? 'short' : undefined,
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: config.timeZone,
+  });
+};
+
+/**
+ * Hook to get what 'auto' resolves to and when it next switches
+ * Re-renders when the switch happens, whichever mode is selected
+ * @returns Auto mode status and the switch time formatted for display
+ */
+export const useAutoStatus = <T extends string = Theme>(): AutoStatus<T> & {
+  nextChangeLabel: string | null;
+} => {
+  const context = useContext(ThemeContext);
+
+  if (context === null) {
+    throw new Error(
+      'useAutoStatus must be used within an AutoThemeProvider. ' +
+      'Make sure your component is wrapped with <AutoThemeProvider>.'
+    );
+  }
+
+  const config = context.resolvedConfig as ThemeConfig<T>;
+  const now = getCurrentTime(config);
+  const status = getAutoStatus(config, getSystemTheme(), now);
+  useRenderAt(status.nextChange?.getTime() ?? null, config);
+
+  return {
+    ...status,
+    nextChangeLabel: status.nextChange ? formatAutoChange(status.nextChange, config, now) : null,
+  };
+};
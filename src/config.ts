@@ -0,0 +1,446 @@
+/**
+ * Configuration resolution for react-auto-time-theme
+ * Merges user configuration with defaults, reports invalid values and
+ * replaces them with fallbacks
+ */
+
+import { ThemeConfig, ConfigValidationError, ScheduleSegment, TimeOfDay } from './types';
+import { DEFAULT_CONFIG, DEFAULT_LIGHT_START, DEFAULT_DARK_START, DEFAULT_MODE } from './constants';
+import { timeToMinutes, isValidSchedule, isValidThemeName, isValidTimeZone } from './timeUtils';
+import { isValidSolarConfig } from './solar';
+import { isValidTransition } from './transition';
+import { isValidTwilight } from './twilight';
+import { isValidAmbientConfig } from './ambient';
+import { isValidApplier } from './appliers';
+import { isValidStorageMigration } from './storage';
+import {
+  isValidDays,
+  isValidScheduleException,
+  resolveOverrideExpiry,
+  isAutomaticMode,
+  getAvailableThemes,
+} from './schedule';
+
+declare const process: { env: { NODE_ENV?: string } };
+
+/**
+ * Error thrown for invalid options in strict mode
+ */
+export class ThemeConfigError extends Error {
+  /**
+   * The invalid options
+   */
+  readonly errors: ConfigValidationError[];
+
+  constructor(errors: ConfigValidationError[]) {
+    super(
+      'AutoThemeProvider: Invalid configuration.\n' +
+        errors.map((error) => `- ${formatError(error)}`).join('\n')
+    );
+    this.name = 'ThemeConfigError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Validation of a single option
+ */
+interface ConfigRule {
+  field: keyof ThemeConfig;
+  /**
+   * @returns Why the value is invalid, or null if it's valid
+   */
+  check: (config: ThemeConfig) => string | null;
+  /** What is used instead, for the console warning */
+  fallback: string;
+  /** Replace the invalid value */
+  fix: (config: ThemeConfig) => void;
+}
+
+/**
+ * Describe an invalid option
+ */
+const formatError = ({ field, value, reason }: ConfigValidationError): string => {
+  let formatted: string;
+  try {
+    formatted = JSON.stringify(value) ?? String(value);
+  } catch {
+    formatted = String(value);
+  }
+  return `${field} ${formatted}: ${reason}`;
+};
+
+/**
+ * Get why a time of day can't be parsed
+ */
+const getTimeError = (time: TimeOfDay): string | null => {
+  try {
+    timeToMinutes(time);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/**
+ * Get why schedule segments are invalid
+ */
+const getScheduleError = (schedule: ScheduleSegment[]): string | null => {
+  if (!Array.isArray(schedule) || schedule.length === 0) {
+    return 'Expected at least one segment.';
+  }
+  for (const segment of schedule) {
+    if (typeof segment !== 'object' || segment === null) {
+      return 'Expected each segment to have a start time and a theme.';
+    }
+    const timeError = getTimeError(segment.start);
+    if (timeError) {
+      return timeError;
+    }
+    if (!isValidThemeName(segment.theme)) {
+      return `Invalid theme name: "${String(segment.theme)}". "auto", "system" and "ambient" are reserved.`;
+    }
+  }
+  return isValidSchedule(schedule) ? null : 'Two segments start at the same time.';
+};
+
+/**
+ * Rules in the order they're applied; later rules may rely on the fallbacks
+ * of earlier ones (e.g., defaultMode on a valid schedule)
+ */
+const CONFIG_RULES: ConfigRule[] = [
+  {
+    field: 'lightStart',
+    check: (config) => getTimeError(config.lightStart),
+    fallback: `Using "${DEFAULT_LIGHT_START}" instead.`,
+    fix: (config) => {
+      config.lightStart = DEFAULT_LIGHT_START;
+    },
+  },
+  {
+    field: 'darkStart',
+    check: (config) => getTimeError(config.darkStart),
+    fallback: `Using "${DEFAULT_DARK_START}" instead.`,
+    fix: (config) => {
+      config.darkStart = DEFAULT_DARK_START;
+    },
+  },
+  {
+    field: 'schedule',
+    check: (config) => (config.schedule ? getScheduleError(config.schedule) : null),
+    fallback: 'Using lightStart and darkStart instead.',
+    fix: (config) => {
+      config.schedule = undefined;
+    },
+  },
+  {
+    field: 'days',
+    check: (config) =>
+      config.days && !isValidDays(config.days)
+        ? 'Expected weekday names, "weekdays" or "weekend" with a valid theme, segments or start times for each.'
+        : null,
+    fallback: 'Using the same schedule every day instead.',
+    fix: (config) => {
+      config.days = undefined;
+    },
+  },
+  {
+    field: 'exceptions',
+    check: (config) =>
+      config.exceptions &&
+      !(Array.isArray(config.exceptions) && config.exceptions.every(isValidScheduleException))
+        ? 'Expected YYYY-MM-DD dates in order and a valid day schedule for each exception.'
+        : null,
+    fallback: 'Ignoring date-specific schedules.',
+    fix: (config) => {
+      config.exceptions = undefined;
+    },
+  },
+  {
+    field: 'timeZone',
+    check: (config) =>
+      config.timeZone && !isValidTimeZone(config.timeZone) ? 'Unknown time zone.' : null,
+    fallback: 'Using the device time zone instead.',
+    fix: (config) => {
+      config.timeZone = undefined;
+    },
+  },
+  {
+    field: 'solar',
+    check: (config) =>
+      config.solar && !isValidSolarConfig(config.solar)
+        ? 'Expected a latitude between -90 and 90, a longitude between -180 and 180 and numeric offsets.'
+        : null,
+    fallback: 'Using lightStart and darkStart instead.',
+    fix: (config) => {
+      config.solar = undefined;
+    },
+  },
+  {
+    field: 'twilight',
+    check: (config) =>
+      config.twilight && !isValidTwilight(config.twilight)
+        ? 'Expected a duration of up to 720 minutes, a positive interval and a custom property name.'
+        : null,
+    fallback: 'Switching themes without a blend window instead.',
+    fix: (config) => {
+      config.twilight = undefined;
+    },
+  },
+  {
+    field: 'ambient',
+    check: (config) =>
+      config.ambient && !isValidAmbientConfig(config.ambient)
+        ? 'Expected non-negative thresholds in order, a non-negative dwell time, a positive frequency and a sensor with a subscribe method.'
+        : null,
+    fallback: 'Using the default thresholds and sensor instead.',
+    fix: (config) => {
+      config.ambient = undefined;
+    },
+  },
+  {
+    field: 'defaultMode',
+    check: (config) =>
+      isAutomaticMode(config.defaultMode) || getAvailableThemes(config).includes(config.defaultMode)
+        ? null
+        : 'Expected "auto", "system", "ambient" or an available theme.',
+    fallback: `Using "${DEFAULT_MODE}" instead.`,
+    fix: (config) => {
+      config.defaultMode = DEFAULT_MODE;
+    },
+  },
+  {
+    field: 'appliers',
+    check: (config) =>
+      config.appliers && !(Array.isArray(config.appliers) && config.appliers.every(isValidApplier))
+        ? 'Expected an array of appliers, each with a supported type and its required options.'
+        : null,
+    fallback: 'Ignoring the invalid ones.',
+    fix: (config) => {
+      config.appliers = Array.isArray(config.appliers)
+        ? config.appliers.filter(isValidApplier)
+        : undefined;
+    },
+  },
+  {
+    field: 'transition',
+    check: (config) =>
+      config.transition !== undefined && !isValidTransition(config.transition)
+        ? 'Expected "none", "disable-transitions", "view-transition" or a transition config.'
+        : null,
+    fallback: 'Switching themes without a transition instead.',
+    fix: (config) => {
+      config.transition = undefined;
+    },
+  },
+  {
+    field: 'overrideDuration',
+    check: (config) =>
+      config.overrideDuration !== undefined &&
+      resolveOverrideExpiry(config.overrideDuration, config) === null
+        ? 'Expected "next-boundary", { minutes } or { until }.'
+        : null,
+    fallback: 'Manual modes will be kept until changed.',
+    fix: (config) => {
+      config.overrideDuration = undefined;
+    },
+  },
+  {
+    field: 'previousStorageKeys',
+    check: (config) =>
+      config.previousStorageKeys &&
+      !(
+        Array.isArray(config.previousStorageKeys) &&
+        config.previousStorageKeys.every((key) => typeof key === 'string' && key !== '')
+      )
+        ? 'Expected an array of storage keys.'
+        : null,
+    fallback: 'Ignoring previous storage keys.',
+    fix: (config) => {
+      config.previousStorageKeys = undefined;
+    },
+  },
+  {
+    field: 'storageMigrations',
+    check: (config) =>
+      config.storageMigrations &&
+      !(
+        Array.isArray(config.storageMigrations) &&
+        config.storageMigrations.every(isValidStorageMigration)
+      )
+        ? 'Expected a non-negative integer version to upgrade from and a migrate function for each migration.'
+        : null,
+    fallback: 'Ignoring the invalid ones.',
+    fix: (config) => {
+      config.storageMigrations = Array.isArray(config.storageMigrations)
+        ? config.storageMigrations.filter(isValidStorageMigration)
+        : undefined;
+    },
+  },
+];
+
+/**
+ * Top-level callbacks AutoThemeProvider forwards to the latest config, so
+ * only their presence matters when comparing configurations
+ */
+const FORWARDED_CALLBACKS: Array<keyof ThemeConfig> = ['onThemeChange', 'onError', 'now'];
+
+/**
+ * Check if a value is an object literal (or created without a prototype)
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Compare arrays and plain objects by their contents, and everything else
+ * (functions, elements, class instances) by reference
+ * @param seen - Pairs already being compared, so circular values end
+ */
+const isSameValue = (a: unknown, b: unknown, seen: Map<object, object>): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  const isArrayPair = Array.isArray(a) && Array.isArray(b);
+  if (!isArrayPair && !(isPlainObject(a) && isPlainObject(b))) {
+    return false;
+  }
+  const objectA = a as Record<string, unknown>;
+  const objectB = b as Record<string, unknown>;
+  if (seen.get(objectA) === objectB) {
+    return true;
+  }
+  seen.set(objectA, objectB);
+
+  const keys = Object.keys(objectA);
+  return (
+    keys.length === Object.keys(objectB).length &&
+    keys.every(
+      (key) =>
+        Object.prototype.hasOwnProperty.call(objectB, key) &&
+        isSameValue(objectA[key], objectB[key], seen)
+    )
+  );
+};
+
+/**
+ * Check whether two configurations have the same options
+ * Arrays and plain objects are compared by their contents; functions,
+ * elements and other objects by reference. onThemeChange, onError and now
+ * only count by their presence, as the provider always calls the latest ones.
+ * @param a - Partial theme configuration
+ * @param b - Partial theme configuration
+ * @returns true if resolving either gives the same configuration
+ */
+export const isSameConfig = (a: Partial<ThemeConfig>, b: Partial<ThemeConfig>): boolean => {
+  const withoutCallbacks = (config: Partial<ThemeConfig>) => {
+    const options: Record<string, unknown> = { ...config };
+    FORWARDED_CALLBACKS.forEach((field) => {
+      options[field] = typeof config[field] === 'function';
+    });
+    return options;
+  };
+  return isSameValue(withoutCallbacks(a), withoutCallbacks(b), new Map());
+};
+
+/**
+ * Configurations returned by resolveConfig
+ * Resolving one again returns it as is, so a controller given a provider's
+ * resolved config doesn't report its invalid options a second time
+ */
+const resolvedConfigs = new WeakSet<Partial<ThemeConfig>>();
+
+/**
+ * Merge configuration with defaults and apply the fallbacks of all rules
+ * @returns The safe configuration and the invalid options that were replaced
+ */
+const applyConfigRules = (
+  config: Partial<ThemeConfig>
+): { config: ThemeConfig; errors: ConfigValidationError[] } => {
+  // Merge config with defaults
+  const mergedConfig: ThemeConfig = {
+    ...DEFAULT_CONFIG,
+    ...config,
+  };
+
+  const errors: ConfigValidationError[] = [];
+  CONFIG_RULES.forEach((rule) => {
+    const value = mergedConfig[rule.field];
+    const reason = rule.check(mergedConfig);
+    if (reason !== null) {
+      errors.push({ field: rule.field, value, reason });
+      rule.fix(mergedConfig);
+    }
+  });
+
+  return { config: mergedConfig, errors };
+};
+
+/**
+ * Check whether the app runs in development
+ * Relies on the app's bundler (or Node.js) providing process.env.NODE_ENV
+ */
+const isDevelopment = (): boolean => {
+  try {
+    return process.env.NODE_ENV !== 'production';
+  } catch {
+    // Without a bundler or Node.js there's no way to tell
+    return false;
+  }
+};
+
+/**
+ * Validate a configuration without applying it
+ * Use it to check settings before saving them (e.g., in an admin UI)
+ * @param config - Partial theme configuration
+ * @returns The invalid options, with their value and why they were
+ * rejected; empty if the configuration is valid
+ *
+ * @example
+ * validateConfig({ lightStart: '7:30 PM', darkStart: '25:00' });
+ * // [{ field: 'darkStart', value: '25:00', reason: 'Invalid hour value: "25". ...' }]
+ */
+export const validateConfig = (config: Partial<ThemeConfig> = {}): ConfigValidationError[] => {
+  return applyConfigRules(config).errors;
+};
+
+/**
+ * Merge configuration with defaults and validate it
+ * Invalid values are replaced so the result is always safe to schedule
+ * with. Each one is passed to config.onError, or logged as a console warning
+ * without it; in strict mode a ThemeConfigError is thrown instead, outside
+ * production builds. A configuration this function returned is passed
+ * through without being validated again.
+ * @param config - Partial theme configuration
+ * @returns Complete theme configuration
+ * @throws ThemeConfigError in strict mode during development
+ */
+export const resolveConfig = (config: Partial<ThemeConfig> = {}): ThemeConfig => {
+  if (resolvedConfigs.has(config)) {
+    return config as ThemeConfig;
+  }
+
+  const { config: resolvedConfig, errors } = applyConfigRules(config);
+  resolvedConfigs.add(resolvedConfig);
+  if (errors.length === 0) {
+    return resolvedConfig;
+  }
+
+  if (config.strict && isDevelopment()) {
+    throw new ThemeConfigError(errors);
+  }
+
+  errors.forEach((error) => {
+    if (config.onError) {
+      config.onError(error);
+      return;
+    }
+    const rule = CONFIG_RULES.find(({ field }) => field === error.field);
+    console.warn(`AutoThemeProvider: Invalid ${formatError(error)} ${rule?.fallback ?? ''}`.trim());
+  });
+  return resolvedConfig;
+};
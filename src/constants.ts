@@ -2,7 +2,7 @@
  * Default configuration constants for react-auto-time-theme
  */
 
-import { ThemeConfig } from './types';
+import { ThemeConfig, ThemeApplier } from './types';
 
 /**
  * Default light mode start time (7:00 AM)
@@ -19,11 +19,22 @@ export const DEFAULT_DARK_START = '22:00';
  */
 export const DEFAULT_STORAGE_KEY = 'auto-theme-mode';
 
+/**
+ * Version of the stored preference format
+ * Bump it with a migration in storage.ts when the stored fields change
+ */
+export const STORAGE_VERSION = 1;
+
 /**
  * Default target element selector for applying theme
  */
 export const DEFAULT_APPLY_TO = 'html' as const;
 
+/**
+ * Default appliers: the data-theme attribute on the applyTo element
+ */
+export const DEFAULT_APPLIERS: ThemeApplier[] = [{ type: 'attribute', name: 'data-theme' }];
+
 /**
  * Default mode when no preference is stored
  */
@@ -45,6 +56,87 @@ export const DEFAULT_CONFIG: Omit<ThemeConfig, 'onThemeChange'> = {
  */
 export const VISIBILITY_CHANGE_EVENT = 'visibilitychange';
 
+/**
+ * Event name for storage changes made by other tabs
+ */
+export const STORAGE_EVENT = 'storage';
+
+/**
+ * BroadcastChannel name used to sync the mode between tabs
+ */
+export const SYNC_CHANNEL_NAME = 'auto-time-theme';
+
+/**
+ * Media query matching a dark OS color scheme preference
+ */
+export const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Media query matching a light OS color scheme preference
+ */
+export const LIGHT_SCHEME_QUERY = '(prefers-color-scheme: light)';
+
+/**
+ * Id of the style element holding token custom properties
+ */
+export const TOKEN_STYLE_ID = 'auto-theme-tokens';
+
+/**
+ * Media query matching a reduced motion preference
+ */
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Default theme crossfade duration (in milliseconds)
+ */
+export const DEFAULT_TRANSITION_DURATION = 300;
+
+/**
+ * Default theme crossfade easing
+ */
+export const DEFAULT_TRANSITION_EASING = 'ease';
+
+/**
+ * Default CSS custom property holding the twilight blend progress
+ */
+export const DEFAULT_TWILIGHT_PROPERTY = '--theme-progress';
+
+/**
+ * Default interval between twilight progress updates (in seconds)
+ */
+export const DEFAULT_TWILIGHT_INTERVAL = 30;
+
+/**
+ * Default illuminance below which 'ambient' mode switches to dark (in lux)
+ */
+export const DEFAULT_AMBIENT_DARK_BELOW = 50;
+
+/**
+ * Default illuminance above which 'ambient' mode switches to light (in lux)
+ */
+export const DEFAULT_AMBIENT_LIGHT_ABOVE = 150;
+
+/**
+ * Default time readings have to indicate the other theme before 'ambient'
+ * mode switches (in seconds)
+ */
+export const DEFAULT_AMBIENT_DWELL = 10;
+
+/**
+ * Default readings per second requested from the AmbientLightSensor API
+ */
+export const DEFAULT_AMBIENT_FREQUENCY = 1;
+
+/**
+ * Client hint header carrying the OS color scheme preference
+ */
+export const CLIENT_HINT_HEADER = 'Sec-CH-Prefers-Color-Scheme';
+
+/**
+ * Number of days of sunrise/sunset times embedded in the inline theme script
+ */
+export const THEME_SCRIPT_SOLAR_DAYS = 30;
+
 /**
  * Event name for time change detection (if supported)
  */
@@ -55,3 +147,20 @@ export const TIME_CHANGE_EVENT = 'timeupdate';
  * This prevents excessive re-checks
  */
 export const MIN_CHECK_INTERVAL = 60000; // 1 minute
+
+/**
+ * Longest the scheduler waits between checks while a task is due (in
+ * milliseconds), so clock changes are noticed even without wake-up events
+ */
+export const SCHEDULER_HEARTBEAT_INTERVAL = 60000; // 1 minute
+
+/**
+ * Difference between wall-clock and monotonic elapsed time, or lateness of
+ * a timer, that counts as a clock change or sleep (in milliseconds)
+ */
+export const CLOCK_DRIFT_TOLERANCE = 2000;
+
+/**
+ * Window events after which the device may have slept or changed its clock
+ */
+export const WAKE_EVENTS = ['focus', 'pageshow', 'online'] as const;
@@ -0,0 +1,65 @@
+/**
+ * react-auto-time-theme/core
+ * Framework-agnostic entry point without React, for plain scripts, web
+ * components and other frameworks
+ */
+
+export type {
+  Theme,
+  DefaultTheme,
+  Mode,
+  TimeOfDay,
+  UserSchedule,
+  ThemeConfig,
+  ConfigValidationError,
+  ThemeState,
+  ThemeChangeEvent,
+  ThemeChangeReason,
+  ThemeEventMap,
+  TwilightConfig,
+  AmbientConfig,
+  AmbientLightSource,
+  OverrideDuration,
+  TransitionStrategy,
+  TransitionConfig,
+  ThemeApplier,
+  ThemeTokens,
+  ThemeTokenMap,
+  StorageAdapter,
+  StorageMigration,
+  CookieOptions,
+} from './types';
+
+export type { ThemeControllerOptions, ThemeStateListener } from './ThemeController';
+export type { ThemeTransition } from './transitions';
+
+export { ThemeController } from './ThemeController';
+
+export { resolveConfig, validateConfig, ThemeConfigError } from './config';
+
+export { createAmbientLightSensor } from './ambient';
+
+export { calculateTheme, getAvailableThemes, getNextTheme } from './schedule';
+
+export { getThemeAt, getTransitions } from './transitions';
+
+export {
+  createAttributeApplier,
+  createClassApplier,
+  createStyleApplier,
+  createColorSchemeApplier,
+  createMetaApplier,
+  createThemeColorApplier,
+  createCallbackApplier,
+} from './appliers';
+
+export {
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createCookieStorageAdapter,
+  createMemoryStorageAdapter,
+} from './storage';
+
+export { getTokenStylesheet } from './tokens';
+
+export { getThemeScript } from './inlineScript';
@@ -0,0 +1,71 @@
+/**
+ * Typed event emitter for react-auto-time-theme
+ */
+
+/**
+ * Listener of an event
+ */
+export type EventListener<E> = (event: E) => void;
+
+/**
+ * Emitter of the events in an event map
+ */
+export interface EventEmitter<Events extends object> {
+  /**
+   * Listen for an event
+   * @param type - Event name
+   * @param listener - Called with each event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void;
+
+  /**
+   * Stop listening for an event
+   * @param type - Event name
+   * @param listener - Listener passed to on()
+   */
+  off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void;
+
+  /**
+   * Call all listeners of an event
+   * A listener that throws is logged and doesn't stop the others
+   * @param type - Event name
+   * @param event - Event passed to the listeners
+   */
+  emit<K extends keyof Events>(type: K, event: Events[K]): void;
+}
+
+/**
+ * Create an event emitter
+ * @returns Event emitter
+ */
+export const createEventEmitter = <Events extends object>(): EventEmitter<Events> => {
+  const listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  const off: EventEmitter<Events>['off'] = (type, listener) => {
+    listeners.get(type)?.delete(listener);
+  };
+
+  return {
+    on: (type, listener) => {
+      let typeListeners = listeners.get(type);
+      if (!typeListeners) {
+        typeListeners = new Set();
+        listeners.set(type, typeListeners);
+      }
+      typeListeners.add(listener);
+      return () => off(type, listener);
+    },
+    off,
+    emit: (type, event) => {
+      // Listeners added while emitting get the next event
+      Array.from(listeners.get(type) ?? []).forEach((listener) => {
+        try {
+          (listener as EventListener<typeof event>)(event);
+        } catch (error) {
+          console.warn(`AutoThemeProvider: A "${String(type)}" event listener failed.`, error);
+        }
+      });
+    },
+  };
+};
@@ -7,32 +7,199 @@
 // Re-export types
 export type {
   Theme,
+  DefaultTheme,
   Mode,
+  TimeOfDay,
+  AutoPrecedence,
+  ScheduleSegment,
+  Weekday,
+  DaySchedule,
+  ScheduleException,
+  UserSchedule,
   ThemeConfig,
+  ConfigValidationError,
   ThemeContextValue,
+  ThemeState,
+  ThemeChangeEvent,
+  ThemeChangeReason,
+  ThemeEventMap,
+  SolarConfig,
+  TwilightConfig,
+  AmbientConfig,
+  AmbientLightSource,
+  OverrideDuration,
+  TransitionStrategy,
+  TransitionConfig,
+  ApplierTarget,
+  AttributeApplier,
+  ClassApplier,
+  StyleApplier,
+  MetaApplier,
+  CallbackApplier,
+  ThemeApplier,
+  ThemeTokens,
+  ThemeTokenMap,
+  TokenStrategy,
+  StorageAdapter,
+  StorageMigration,
+  CookieOptions,
 } from './types';
 
+export type { CalendarDate, ZonedDateParts } from './timeUtils';
+export type { SunTimes } from './solar';
+export type { StoredPreference, StoredThemeData, StoredThemeRead, PreferenceToStore } from './storage';
+export type { ModeSync, ModeChangeMessage } from './sync';
+export type { Scheduler, ScheduledTask, ScheduledTaskTrigger } from './scheduler';
+export type { ThemeControllerOptions, ThemeStateListener } from './ThemeController';
+export type { AutoStatus } from './autoStatus';
+export type { ThemeTransition } from './transitions';
+export type { NextTransitionState, NextTransitionOptions } from './useAutoTheme';
+export type { ThemeToggleState } from './ThemeToggle';
+export type { ThemeModeOptionState } from './ThemeModeSelect';
+
 // Re-export components
 export { AutoThemeProvider, default as AutoThemeProviderDefault } from './AutoThemeProvider';
 
+export { ThemeScript } from './ThemeScript';
+
+export { ThemeToggle } from './ThemeToggle';
+
+export { ThemeModeSelect } from './ThemeModeSelect';
+
+// Re-export the framework-agnostic controller
+export { ThemeController } from './ThemeController';
+
 // Re-export hooks
-export { useAutoTheme, useTheme, useMode } from './useAutoTheme';
+export {
+  useAutoTheme,
+  useTheme,
+  useMode,
+  useThemeProgress,
+  useThemeTokens,
+  useThemeEvent,
+  useNextTransition,
+} from './useAutoTheme';
+
+export { useAutoStatus } from './autoStatus';
 
 // Re-export utilities
 export {
   timeToMinutes,
+  minutesToTime,
   getCurrentMinutes,
+  getZonedDateParts,
+  zonedTimeToDate,
+  addDays,
+  getWeekday,
+  isValidTimeZone,
   isLightTime,
   getThemeFromTime,
   getNextBoundary,
   getMsUntilNextBoundary,
   isValidTimeConfig,
+  toSchedule,
+  getThemeFromSchedule,
+  getNextScheduleBoundary,
+  getMsUntilNextScheduleBoundary,
+  getScheduleThemes,
+  isValidThemeName,
+  isValidSchedule,
 } from './timeUtils';
 
+export {
+  getCurrentTime,
+  getBaseSchedule,
+  getDaySchedule,
+  getScheduledTheme,
+  getNextScheduledBoundary,
+  getMsUntilScheduledBoundary,
+  calculateTheme,
+  getAvailableThemes,
+  getNextTheme,
+  isAutomaticMode,
+  followsSystemTheme,
+  resolveOverrideExpiry,
+  isValidDaySchedule,
+  isValidScheduleException,
+  isValidUserSchedule,
+  normalizeUserSchedule,
+  applyUserSchedule,
+} from './schedule';
+
+export {
+  getSunTimes,
+  getSolarThemeFromTime,
+  getMsUntilNextSolarBoundary,
+  isValidSolarConfig,
+} from './solar';
+
+export {
+  getThemeLevel,
+  getTwilightProgress,
+  calculateProgress,
+  getNextTwilightUpdate,
+  isValidTwilight,
+} from './twilight';
+
+export {
+  createAmbientLightSensor,
+  getAmbientTheme,
+  isValidAmbientConfig,
+} from './ambient';
+
+export { getThemeAt, getTransitions, getNextTransition } from './transitions';
+
+export { getAutoStatus, formatAutoChange } from './autoStatus';
+
+export { getSystemTheme, subscribeToSystemTheme } from './systemTheme';
+
+export { createModeSync } from './sync';
+
+export { createScheduler, sharedScheduler } from './scheduler';
+
+export {
+  createAttributeApplier,
+  createClassApplier,
+  createStyleApplier,
+  createColorSchemeApplier,
+  createMetaApplier,
+  createThemeColorApplier,
+  createCallbackApplier,
+  applyTheme,
+  isValidApplier,
+} from './appliers';
+
+export {
+  getTokenVariables,
+  getTokenStylesheet,
+  applyTokensToElement,
+  injectTokenStylesheet,
+} from './tokens';
+
+export { runThemeTransition, prefersReducedMotion, isValidTransition } from './transition';
+
+export { getThemeScript } from './inlineScript';
+
+export { resolveConfig, validateConfig, ThemeConfigError } from './config';
+
 export {
   isStorageAvailable,
+  createLocalStorageAdapter,
+  createSessionStorageAdapter,
+  createCookieStorageAdapter,
+  createMemoryStorageAdapter,
+  parseStoredMode,
+  parseStoredPreference,
+  parseStoredData,
+  migrateStoredValue,
+  serializePreference,
+  readStoredMode,
+  readStoredPreference,
+  readStoredData,
   getStoredMode,
+  loadStoredMode,
   storeMode,
+  storePreference,
   clearStoredMode,
   getStoredModeWithFallback,
 } from './storage';
@@ -41,7 +208,17 @@ export {
   DEFAULT_LIGHT_START,
   DEFAULT_DARK_START,
   DEFAULT_STORAGE_KEY,
+  STORAGE_VERSION,
   DEFAULT_APPLY_TO,
+  DEFAULT_APPLIERS,
   DEFAULT_MODE,
   DEFAULT_CONFIG,
+  DARK_SCHEME_QUERY,
+  LIGHT_SCHEME_QUERY,
+  CLIENT_HINT_HEADER,
+  TOKEN_STYLE_ID,
+  DEFAULT_TWILIGHT_PROPERTY,
+  DEFAULT_AMBIENT_DARK_BELOW,
+  DEFAULT_AMBIENT_LIGHT_ABOVE,
+  DEFAULT_AMBIENT_DWELL,
 } from './constants';
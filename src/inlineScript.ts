@@ -0,0 +1,415 @@
+/**
+ * Inline bootstrap script for react-auto-time-theme
+ * Applies the theme before the first paint on SSR and static sites,
+ * so pages don't flash the wrong theme until the provider hydrates
+ */
+
+import { ThemeConfig, ScheduleSegment } from './types';
+import { resolveConfig } from './config';
+import {
+  DARK_SCHEME_QUERY,
+  LIGHT_SCHEME_QUERY,
+  THEME_SCRIPT_SOLAR_DAYS,
+  DEFAULT_APPLIERS,
+} from './constants';
+import { addDays, getZonedDateParts, sortSchedule } from './timeUtils';
+import {
+  getAvailableThemes,
+  getWeekdaySchedule,
+  getWeekdayOverride,
+  resolveDaySchedule,
+} from './schedule';
+import { getSolarDay } from './solar';
+
+/**
+ * Schedule segments as [minutes from midnight (fractions for seconds), theme],
+ * earliest first
+ */
+type ScriptSegments = Array<[number, string]>;
+
+/**
+ * Applier in serialized form, with the target resolved to a selector
+ */
+interface ScriptApplier {
+  type: 'attribute' | 'class' | 'style' | 'meta';
+  name?: string;
+  property?: string;
+  target?: string;
+  values?: Partial<Record<string, string>>;
+  classNames?: Partial<Record<string, string>>;
+}
+
+/**
+ * Configuration serialized into the script, resolved ahead of time so the
+ * script itself stays small
+ */
+interface ThemeScriptData {
+  storageKey: string;
+  /** Storage the script reads the mode from; null when it can't read the adapter */
+  storageType: 'localStorage' | 'sessionStorage' | 'cookie' | null;
+  /** Appliers to run; callbacks and element targets are left to the provider */
+  appliers: ScriptApplier[];
+  defaultMode: string;
+  themes: string[];
+  autoPrecedence: string;
+  darkQuery: string;
+  lightQuery: string;
+  timeZone: string | null;
+  /** Segments per weekday, 0 for Sunday through 6 for Saturday */
+  weekdays: ScriptSegments[];
+  /** Whether each weekday follows the base schedule, which a user's schedule replaces */
+  baseWeekdays: boolean[];
+  /** Date exceptions as [first date, last date, segments]; the last match wins */
+  exceptions: Array<[string, string, ScriptSegments]>;
+  /** Light periods (or polar day/night themes) per day, starting at `start` */
+  solar: { start: [number, number, number]; days: Array<[number, number] | string> } | null;
+}
+
+/**
+ * The script body. It is serialized with Function.prototype.toString, so it
+ * must not reference anything outside its own scope.
+ */
+function bootstrapTheme(data: ThemeScriptData): void {
+  try {
+    const DAY = 86400000;
+
+    const read = (key: string): string | null => {
+      let value: string | null = null;
+      if (data.storageType === 'cookie') {
+        const name = encodeURIComponent(key) + '=';
+        const cookies = document.cookie.split(';');
+        for (let i = 0; i < cookies.length; i++) {
+          const cookie = cookies[i].trim();
+          if (cookie.indexOf(name) === 0) {
+            value = decodeURIComponent(cookie.slice(name.length));
+          }
+        }
+      } else if (data.storageType) {
+        value = window[data.storageType].getItem(key);
+      }
+      return value;
+    };
+
+    let mode = data.defaultMode;
+    let schedule: { lightStart?: unknown; darkStart?: unknown } | null = null;
+    try {
+      const stored = read(data.storageKey);
+      let storedMode: unknown = stored;
+      let until: unknown = null;
+      let payload = null;
+      try {
+        payload = stored !== null ? JSON.parse(stored) : null;
+      } catch (error) {
+        // Legacy values are bare strings
+      }
+
+      if (payload && typeof payload === 'object' && payload.version >= 1) {
+        storedMode = payload.mode;
+        until = payload.until === undefined ? null : payload.until;
+        schedule = payload.schedule;
+      } else {
+        // The legacy format stored time-limited overrides as
+        // "<mode>@<expiry timestamp>"
+        const override = stored !== null ? /^(.+)@(\d+)$/.exec(stored) : null;
+        if (override) {
+          storedMode = override[1];
+          until = Number(override[2]);
+        }
+      }
+
+      if (
+        typeof storedMode === 'string' &&
+        (until === null || (typeof until === 'number' && until > Date.now())) &&
+        (storedMode === 'auto' ||
+          storedMode === 'system' ||
+          storedMode === 'ambient' ||
+          data.themes.indexOf(storedMode) !== -1)
+      ) {
+        mode = storedMode;
+      }
+    } catch (error) {
+      // Storage unavailable, keep the default mode
+    }
+
+    // Segments of the user's schedule, replacing the base schedule
+    let custom: Array<[number, string]> | null = null;
+    try {
+      const toMinutes = (time: unknown): number => {
+        const match = typeof time === 'string' ? /^(\d{2}):(\d{2})(?::(\d{2}))?$/.exec(time) : null;
+        return match ? Number(match[1]) * 60 + Number(match[2]) + Number(match[3] || 0) / 60 : NaN;
+      };
+      const light = toMinutes(schedule && schedule.lightStart);
+      const dark = toMinutes(schedule && schedule.darkStart);
+      if (light < 1440 && dark < 1440 && light !== dark) {
+        custom =
+          light < dark
+            ? [[light, 'light'], [dark, 'dark']]
+            : [[dark, 'dark'], [light, 'light']];
+      }
+    } catch (error) {
+      // Invalid schedule, keep the configured one
+    }
+
+    // Wall-clock [year, month, day, minutes with seconds as a fraction] of an instant
+    const getParts = (time: number): number[] => {
+      if (!data.timeZone) {
+        const date = new Date(time);
+        return [
+          date.getFullYear(),
+          date.getMonth() + 1,
+          date.getDate(),
+          date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60,
+        ];
+      }
+      const fields: Record<string, number> = {};
+      new Intl.DateTimeFormat('en-US', {
+        timeZone: data.timeZone,
+        hour12: false,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+      })
+        .formatToParts(time)
+        .forEach((part) => {
+          fields[part.type] = parseInt(part.value, 10);
+        });
+      return [
+        fields.year,
+        fields.month,
+        fields.day,
+        (fields.hour % 24) * 60 + fields.minute + fields.second / 60,
+      ];
+    };
+
+    // Wall-clock minutes since 1970-01-01 of a time of day
+    const toKey = (year: number, month: number, day: number, minutes: number): number =>
+      Date.UTC(year, month - 1, day) / 60000 + minutes;
+
+    // Theme switches of a calendar day as [wall-clock key, theme], earliest first
+    const getEvents = (year: number, month: number, day: number): Array<[number, string]> => {
+      const date = new Date(Date.UTC(year, month - 1, day));
+      const fromSegments = (segments: Array<[number, string]>): Array<[number, string]> =>
+        segments.map((segment): [number, string] => [
+          date.getTime() / 60000 + segment[0],
+          segment[1],
+        ]);
+
+      const key = date.toISOString().slice(0, 10);
+      for (let i = data.exceptions.length - 1; i >= 0; i--) {
+        const exception = data.exceptions[i];
+        if (key >= exception[0] && key <= exception[1]) {
+          return fromSegments(exception[2]);
+        }
+      }
+      const weekday = date.getUTCDay();
+      const solar = data.solar;
+      if (data.baseWeekdays[weekday] && custom) {
+        return fromSegments(custom);
+      }
+      if (!data.baseWeekdays[weekday] || !solar) {
+        return fromSegments(data.weekdays[weekday]);
+      }
+
+      const index = Math.round(
+        (date.getTime() - Date.UTC(solar.start[0], solar.start[1] - 1, solar.start[2])) / DAY
+      );
+      // Outside the precomputed window, shift the nearest day by whole days
+      const nearest = Math.min(Math.max(index, 0), solar.days.length - 1);
+      const entry = solar.days[nearest];
+      if (typeof entry === 'string') {
+        return fromSegments([[0, entry]]);
+      }
+      return [entry[0], entry[1]].map((time, i): [number, string] => {
+        const parts = getParts(time + (index - nearest) * DAY);
+        return [toKey(parts[0], parts[1], parts[2], parts[3]), i === 0 ? 'light' : 'dark'];
+      });
+    };
+
+    // A day's own switches take precedence over the previous day's
+    const getScheduledTheme = (): string => {
+      const parts = getParts(Date.now());
+      const current = toKey(parts[0], parts[1], parts[2], parts[3]);
+      const yesterday = getEvents(parts[0], parts[1], parts[2] - 1);
+
+      let theme: string | null = null;
+      yesterday.concat(getEvents(parts[0], parts[1], parts[2])).forEach((event) => {
+        if (event[0] <= current) {
+          theme = event[1];
+        }
+      });
+      if (theme !== null) {
+        return theme;
+      }
+      return yesterday[yesterday.length - 1][1];
+    };
+
+    let theme = mode;
+    // No sensor reading exists before hydration, so 'ambient' starts on the schedule
+    if (mode === 'auto' || mode === 'system' || mode === 'ambient') {
+      let systemTheme: string | null = null;
+      if (
+        (mode === 'system' || data.autoPrecedence === 'system') &&
+        typeof window.matchMedia === 'function'
+      ) {
+        if (window.matchMedia(data.darkQuery).matches) {
+          systemTheme = 'dark';
+        } else if (window.matchMedia(data.lightQuery).matches) {
+          systemTheme = 'light';
+        }
+      }
+      theme = systemTheme || getScheduledTheme();
+    }
+
+    const resolved = theme;
+    const getElements = (selector: string): Element[] => {
+      try {
+        return Array.prototype.slice.call(document.querySelectorAll(selector));
+      } catch (error) {
+        return [];
+      }
+    };
+    const getValue = (values: ScriptApplier['values'], fallback: string | undefined) =>
+      values && values[resolved] !== undefined ? values[resolved] : fallback;
+    const getClasses = (classNames: ScriptApplier['classNames'], name: string) =>
+      ((classNames && classNames[name]) ?? name).split(/\s+/).filter(Boolean);
+
+    data.appliers.forEach((applier) => {
+      if (applier.type === 'meta') {
+        const content = getValue(applier.values, undefined);
+        if (content === undefined) {
+          return;
+        }
+        let metas = getElements('meta').filter((meta) => meta.getAttribute('name') === applier.name);
+        if (metas.length === 0) {
+          const meta = document.createElement('meta');
+          meta.setAttribute('name', applier.name as string);
+          document.head.appendChild(meta);
+          metas = [meta];
+        }
+        metas.forEach((meta) => meta.setAttribute('content', content));
+        return;
+      }
+
+      getElements(applier.target as string).forEach((element) => {
+        if (applier.type === 'attribute') {
+          element.setAttribute(applier.name as string, getValue(applier.values, resolved) as string);
+        } else if (applier.type === 'class') {
+          const active = getClasses(applier.classNames, resolved);
+          data.themes.forEach((name) => {
+            getClasses(applier.classNames, name).forEach((className) => {
+              if (active.indexOf(className) === -1) {
+                element.classList.remove(className);
+              }
+            });
+          });
+          active.forEach((className) => element.classList.add(className));
+        } else if ((element as HTMLElement).style) {
+          const value = applier.values ? applier.values[resolved] : resolved;
+          if (value === undefined) {
+            (element as HTMLElement).style.removeProperty(applier.property as string);
+          } else {
+            (element as HTMLElement).style.setProperty(applier.property as string, value);
+          }
+        }
+      });
+    });
+  } catch (error) {
+    // Never break the page; the provider applies the theme after hydration
+  }
+}
+
+/**
+ * Convert schedule segments into their serialized form
+ */
+const toScriptSegments = (segments: ScheduleSegment[]): ScriptSegments => {
+  return sortSchedule(segments).map((segment): [number, string] => [segment.minutes, segment.theme]);
+};
+
+/**
+ * Storage adapter types the script knows how to read
+ */
+const SCRIPT_STORAGE_TYPES: Array<ThemeScriptData['storageType']> = [
+  'localStorage',
+  'sessionStorage',
+  'cookie',
+];
+
+/**
+ * Convert appliers into their serialized form
+ * Callbacks and element targets can't be serialized and are skipped
+ */
+const toScriptAppliers = (config: ThemeConfig): ScriptApplier[] => {
+  const appliers: ScriptApplier[] = [];
+  for (const applier of config.appliers ?? DEFAULT_APPLIERS) {
+    if (applier.type === 'callback') {
+      continue;
+    }
+    if (applier.type === 'meta') {
+      appliers.push(applier);
+      continue;
+    }
+    const target = applier.target ?? config.applyTo;
+    if (typeof target === 'string') {
+      appliers.push({ ...applier, target });
+    }
+  }
+  return appliers;
+};
+
+/**
+ * Resolve the configuration into the data embedded in the script
+ */
+const getThemeScriptData = (config: ThemeConfig): ThemeScriptData => {
+  let solar: ThemeScriptData['solar'] = null;
+  if (config.solar) {
+    // Start two days back, as the device's calendar day may lag behind
+    const start = addDays(getZonedDateParts(new Date(), config.timeZone), -2);
+    const days: Array<[number, number] | string> = [];
+    for (let i = 0; i < THEME_SCRIPT_SOLAR_DAYS + 2; i++) {
+      days.push(getSolarDay(config.solar, addDays(start, i)));
+    }
+    solar = { start: [start.year, start.month, start.day], days };
+  }
+
+  // Custom and asynchronous adapters can't be read before the first paint
+  const storageType = config.storage ? config.storage.type : 'localStorage';
+
+  return {
+    storageKey: config.storageKey,
+    storageType: SCRIPT_STORAGE_TYPES.find((type) => type === storageType) ?? null,
+    appliers: toScriptAppliers(config),
+    defaultMode: config.defaultMode,
+    themes: getAvailableThemes(config),
+    autoPrecedence: config.autoPrecedence ?? 'schedule',
+    darkQuery: DARK_SCHEME_QUERY,
+    lightQuery: LIGHT_SCHEME_QUERY,
+    timeZone: config.timeZone ?? null,
+    weekdays: [0, 1, 2, 3, 4, 5, 6].map((weekday) =>
+      toScriptSegments(getWeekdaySchedule(config, weekday))
+    ),
+    baseWeekdays: [0, 1, 2, 3, 4, 5, 6].map((weekday) => !getWeekdayOverride(config, weekday)),
+    exceptions: (config.exceptions ?? []).map((exception) => [
+      exception.date,
+      exception.until ?? exception.date,
+      toScriptSegments(resolveDaySchedule(exception, config)),
+    ]),
+    solar,
+  };
+};
+
+/**
+ * Generate a self-contained inline script that applies the theme before the
+ * first paint. It reads the stored mode and evaluates the same schedule as
+ * AutoThemeProvider, so the provider hydrates with the theme already applied.
+ * Pass the same config as to AutoThemeProvider.
+ * @param config - Theme configuration options
+ * @returns JavaScript source for an inline <script> element
+ */
+export const getThemeScript = (config: Partial<ThemeConfig> = {}): string => {
+  // Escape "<" so the data can never close the surrounding <script> element
+  const data = JSON.stringify(getThemeScriptData(resolveConfig(config))).replace(/</g, '\\u003c');
+  return `(${bootstrapTheme.toString()})(${data})`;
+};
@@ -0,0 +1,524 @@
+/**
+ * Schedule resolution for react-auto-time-theme
+ * Turns a theme configuration into the theme and next boundary for a given
+ * moment, taking weekday schedules, date exceptions and solar mode into account
+ */
+
+import {
+  ThemeConfig,
+  Mode,
+  DefaultTheme,
+  Weekday,
+  DaySchedule,
+  ScheduleException,
+  ScheduleSegment,
+  OverrideDuration,
+  UserSchedule,
+} from './types';
+import {
+  CalendarDate,
+  addDays,
+  getWeekday,
+  getZonedDateParts,
+  zonedTimeToDate,
+  getScheduleThemes,
+  isValidSchedule,
+  isValidThemeName,
+  isValidTimeConfig,
+  minutesToTime,
+  sortSchedule,
+  timeToMinutes,
+  toSchedule,
+} from './timeUtils';
+import { getSolarDay } from './solar';
+
+/**
+ * Get the current time from the configured clock
+ * @param config - Theme configuration
+ * @returns config.now(), or the system time when no clock is configured
+ */
+export const getCurrentTime = <T extends string>(config: Pick<ThemeConfig<T>, 'now'>): Date => {
+  return config.now ? config.now() : new Date();
+};
+
+/**
+ * Weekday names indexed like Date.prototype.getDay()
+ */
+const WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Format a calendar day as YYYY-MM-DD
+ */
+const toDateKey = (date: CalendarDate): string => {
+  const month = String(date.month).padStart(2, '0');
+  const day = String(date.day).padStart(2, '0');
+  return `${date.year}-${month}-${day}`;
+};
+
+/**
+ * Get the base daily schedule of a configuration
+ * Falls back to the lightStart/darkStart shorthand
+ * @param config - Theme configuration
+ * @returns Schedule segments
+ */
+export const getBaseSchedule = <T extends string>(config: ThemeConfig<T>): ScheduleSegment<T>[] => {
+  return config.schedule ?? (toSchedule(config.lightStart, config.darkStart) as ScheduleSegment<T>[]);
+};
+
+/**
+ * Convert a day schedule into schedule segments
+ * @param day - Day schedule
+ * @param config - Theme configuration providing fallback start times
+ * @returns Schedule segments
+ */
+export const resolveDaySchedule = <T extends string>(
+  day: DaySchedule<T>,
+  config: ThemeConfig<T>
+): ScheduleSegment<T>[] => {
+  if (day.theme !== undefined) {
+    return [{ start: '00:00', theme: day.theme }];
+  }
+  if (day.schedule) {
+    return day.schedule;
+  }
+  return toSchedule(
+    day.lightStart ?? config.lightStart,
+    day.darkStart ?? config.darkStart
+  ) as ScheduleSegment<T>[];
+};
+
+/**
+ * Find the date exception covering a calendar day
+ * @returns The last matching exception, or undefined
+ */
+const findException = <T extends string>(
+  config: ThemeConfig<T>,
+  dateKey: string
+): ScheduleException<T> | undefined => {
+  const exceptions = config.exceptions ?? [];
+  for (let i = exceptions.length - 1; i >= 0; i--) {
+    const exception = exceptions[i];
+    if (dateKey >= exception.date && dateKey <= (exception.until ?? exception.date)) {
+      return exception;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Get the day schedule configured for a day of the week
+ * @param config - Theme configuration
+ * @param weekday - 0 for Sunday through 6 for Saturday
+ * @returns The weekday's or its group's day schedule, or undefined when the
+ * base schedule applies
+ */
+export const getWeekdayOverride = <T extends string>(
+  config: ThemeConfig<T>,
+  weekday: number
+): DaySchedule<T> | undefined => {
+  return (
+    config.days?.[WEEKDAYS[weekday]] ??
+    config.days?.[weekday === 0 || weekday === 6 ? 'weekend' : 'weekdays']
+  );
+};
+
+/**
+ * Get the schedule segments for a day of the week, ignoring date exceptions
+ * @param config - Theme configuration
+ * @param weekday - 0 for Sunday through 6 for Saturday
+ * @returns Schedule segments for that weekday
+ */
+export const getWeekdaySchedule = <T extends string>(
+  config: ThemeConfig<T>,
+  weekday: number
+): ScheduleSegment<T>[] => {
+  const day = getWeekdayOverride(config, weekday);
+  return day ? resolveDaySchedule(day, config) : getBaseSchedule(config);
+};
+
+/**
+ * Get the day schedule overriding the base schedule on a calendar day
+ * @returns The date exception's or weekday's day schedule, or undefined
+ */
+const getCalendarDayOverride = <T extends string>(
+  config: ThemeConfig<T>,
+  date: CalendarDate
+): DaySchedule<T> | undefined => {
+  return findException(config, toDateKey(date)) ?? getWeekdayOverride(config, getWeekday(date));
+};
+
+/**
+ * Get the schedule segments for a calendar day
+ */
+const getCalendarDaySchedule = <T extends string>(
+  config: ThemeConfig<T>,
+  date: CalendarDate
+): ScheduleSegment<T>[] => {
+  const day = getCalendarDayOverride(config, date);
+  return day ? resolveDaySchedule(day, config) : getBaseSchedule(config);
+};
+
+/**
+ * Get the schedule segments for the calendar day of a date
+ * Precedence: date exception, weekday, weekdays/weekend group, base schedule
+ * @param config - Theme configuration
+ * @param date - Any instant on the day (in the configured time zone)
+ * @returns Schedule segments for that day
+ */
+export const getDaySchedule = <T extends string>(
+  config: ThemeConfig<T>,
+  date: Date
+): ScheduleSegment<T>[] => {
+  return getCalendarDaySchedule(config, getZonedDateParts(date, config.timeZone));
+};
+
+/**
+ * A theme switch of a calendar day's schedule
+ */
+interface ScheduleEvent<T extends string> {
+  /** Wall-clock minutes since 1970-01-01 in the configured time zone */
+  key: number;
+  theme: T;
+  /** Instant of the switch */
+  at: () => Date;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Get the wall-clock key of a time of day on a calendar day
+ */
+const toEventKey = (date: CalendarDate, minutes: number): number => {
+  return Date.UTC(date.year, date.month - 1, date.day) / MS_PER_MINUTE + minutes;
+};
+
+/**
+ * Get the theme switches of a calendar day, earliest first
+ * Days without a weekday schedule or date exception follow the sun when
+ * solar mode is on; with offsets, a sunset may fall on the next day
+ */
+const getCalendarDayEvents = <T extends string>(
+  config: ThemeConfig<T>,
+  date: CalendarDate
+): ScheduleEvent<T>[] => {
+  const day = getCalendarDayOverride(config, date);
+
+  if (config.solar && !day) {
+    const solarDay = getSolarDay(config.solar, date);
+    if (typeof solarDay === 'string') {
+      return [
+        {
+          key: toEventKey(date, 0),
+          theme: solarDay as T,
+          at: () => zonedTimeToDate(date, 0, config.timeZone),
+        },
+      ];
+    }
+    return solarDay.map((time, index) => {
+      const parts = getZonedDateParts(new Date(time), config.timeZone);
+      return {
+        key: toEventKey(parts, parts.minutes),
+        theme: (index === 0 ? 'light' : 'dark') as T,
+        at: () => new Date(time),
+      };
+    });
+  }
+
+  return sortSchedule(day ? resolveDaySchedule(day, config) : getBaseSchedule(config)).map(
+    (segment) => ({
+      key: toEventKey(date, segment.minutes),
+      theme: segment.theme,
+      at: () => zonedTimeToDate(date, segment.minutes, config.timeZone),
+    })
+  );
+};
+
+/**
+ * Get the scheduled theme at a moment
+ * Before the first segment of a day, the last segment of the previous day
+ * is still active. A day's own switches take precedence over the previous
+ * day's, even a sunset that an offset pushes past midnight.
+ * @param config - Theme configuration
+ * @param now - Instant to evaluate (defaults to the configured clock's time)
+ * @returns Scheduled theme
+ */
+export const getScheduledTheme = <T extends string>(
+  config: ThemeConfig<T>,
+  now: Date = getCurrentTime(config)
+): T => {
+  const today = getZonedDateParts(now, config.timeZone);
+  const current = toEventKey(today, today.minutes);
+  const yesterday = getCalendarDayEvents(config, addDays(today, -1));
+  const started = [...yesterday, ...getCalendarDayEvents(config, today)].filter(
+    (event) => event.key <= current
+  );
+
+  const events = started.length > 0 ? started : yesterday;
+  return events[events.length - 1].theme;
+};
+
+/**
+ * Get the instant of the next scheduled boundary, to the millisecond
+ * Looks at tomorrow's own schedule when no boundary is left today
+ * @param config - Theme configuration
+ * @param now - Instant to measure from (defaults to the configured clock's time)
+ * @returns Instant the scheduled theme next changes (or may change)
+ */
+export const getNextScheduledBoundary = <T extends string>(
+  config: ThemeConfig<T>,
+  now: Date = getCurrentTime(config)
+): Date => {
+  const today = getZonedDateParts(now, config.timeZone);
+  const current = toEventKey(today, today.minutes);
+  const upcoming = [-1, 0, 1]
+    .flatMap((offset) => getCalendarDayEvents(config, addDays(today, offset)))
+    .filter((event) => event.key > current);
+
+  if (upcoming.length === 0) {
+    return new Date(now.getTime() + 24 * 60 * MS_PER_MINUTE);
+  }
+
+  // Boundaries are converted to instants, so days with 23 or 25 hours
+  // (DST transitions) are handled correctly
+  const next = upcoming.reduce((earliest, event) => (event.key < earliest.key ? event : earliest));
+  return next.at();
+};
+
+/**
+ * Calculate milliseconds until the next scheduled boundary
+ * @param config - Theme configuration
+ * @param now - Instant to measure from (defaults to the configured clock's time)
+ * @returns Milliseconds until next boundary
+ */
+export const getMsUntilScheduledBoundary = <T extends string>(
+  config: ThemeConfig<T>,
+  now: Date = getCurrentTime(config)
+): number => {
+  return Math.max(getNextScheduledBoundary(config, now).getTime() - now.getTime(), 0);
+};
+
+/**
+ * Check whether a mode resolves its theme automatically
+ * @param mode - Mode to check
+ * @returns true for 'auto', 'system' and 'ambient', false for manual theme modes
+ */
+export const isAutomaticMode = (mode: Mode): boolean => {
+  return mode === 'auto' || mode === 'system' || mode === 'ambient';
+};
+
+/**
+ * Check whether a mode follows the OS color scheme preference
+ * @param mode - Mode to check
+ * @param config - Theme configuration
+ * @returns true for 'system', and for 'auto' when autoPrecedence is 'system'
+ */
+export const followsSystemTheme = <T extends string>(mode: Mode<T>, config: ThemeConfig<T>): boolean => {
+  return mode === 'system' || (mode === 'auto' && config.autoPrecedence === 'system');
+};
+
+/**
+ * Calculate theme based on mode
+ * @param mode - Current mode
+ * @param config - Theme configuration
+ * @param systemTheme - OS color scheme preference, if known
+ * @param ambientTheme - Theme indicated by the light sensor, if known
+ * @returns Calculated theme
+ */
+export const calculateTheme = <T extends string>(
+  mode: Mode<T>,
+  config: ThemeConfig<T>,
+  systemTheme: DefaultTheme | null = null,
+  ambientTheme: DefaultTheme | null = null
+): T => {
+  if (followsSystemTheme(mode, config) && systemTheme) {
+    return systemTheme as T;
+  }
+  if (mode === 'ambient' && ambientTheme) {
+    return ambientTheme as T;
+  }
+  if (!isAutomaticMode(mode)) {
+    return mode as T;
+  }
+  // Automatic mode without an OS preference or sensor reading follows the schedule
+  return getScheduledTheme(config);
+};
+
+/**
+ * Resolve when a manual mode selection reverts to 'auto'
+ * @param duration - Override duration; anything else means no expiry
+ * @param config - Theme configuration
+ * @param now - Instant the override starts (defaults to the configured clock's time)
+ * @returns Expiry timestamp (ms), or null if the override doesn't expire
+ */
+export const resolveOverrideExpiry = <T extends string>(
+  duration: OverrideDuration | undefined,
+  config: ThemeConfig<T>,
+  now: Date = getCurrentTime(config)
+): number | null => {
+  if (duration === 'next-boundary') {
+    return now.getTime() + getMsUntilScheduledBoundary(config, now);
+  }
+  if (typeof duration !== 'object' || duration === null) {
+    return null;
+  }
+
+  if ('minutes' in duration && typeof duration.minutes === 'number' && duration.minutes > 0) {
+    return now.getTime() + duration.minutes * 60 * 1000;
+  }
+  if ('until' in duration) {
+    const until = duration.until instanceof Date ? duration.until.getTime() : duration.until;
+    return typeof until === 'number' && Number.isFinite(until) ? until : null;
+  }
+  return null;
+};
+
+/**
+ * Get all theme names available with a configuration
+ * @param config - Theme configuration
+ * @returns Scheduled themes followed by additional manual themes
+ */
+export const getAvailableThemes = <T extends string>(config: ThemeConfig<T>): T[] => {
+  // Solar days switch between light and dark
+  const baseSchedule: ScheduleSegment<T>[] = config.solar
+    ? (['light', 'dark'] as T[]).map((theme) => ({ start: '00:00', theme }))
+    : getBaseSchedule(config);
+  const schedules = [
+    baseSchedule,
+    ...Object.values(config.days ?? {})
+      .filter((day): day is DaySchedule<T> => day !== undefined)
+      .map((day) => resolveDaySchedule(day, config)),
+    ...(config.exceptions ?? []).map((exception) => resolveDaySchedule(exception, config)),
+  ];
+  const scheduled = getScheduleThemes(schedules.flat());
+
+  const extra = (config.themes ?? []).filter(
+    (theme) => isValidThemeName(theme) && !scheduled.includes(theme)
+  );
+  return [...scheduled, ...extra];
+};
+
+/**
+ * Get the theme following the current one
+ * @param theme - Current theme
+ * @param themes - Available themes
+ * @returns Next theme, wrapping around to the first one
+ */
+export const getNextTheme = <T extends string>(theme: T, themes: T[]): T => {
+  return themes[(themes.indexOf(theme) + 1) % themes.length];
+};
+
+/**
+ * Validate a day schedule
+ * @param day - Day schedule
+ * @returns true if the theme, segments or start times are valid
+ */
+export const isValidDaySchedule = <T extends string>(day: DaySchedule<T>): boolean => {
+  if (typeof day !== 'object' || day === null) {
+    return false;
+  }
+  if (day.theme !== undefined) {
+    return isValidThemeName(day.theme);
+  }
+  if (day.schedule) {
+    return isValidSchedule(day.schedule);
+  }
+  return isValidTimeConfig(day.lightStart ?? '00:00', day.darkStart ?? '00:00');
+};
+
+/**
+ * Validate per-day schedules
+ * @param days - Day schedules by weekday name or group
+ * @returns true if every key is a weekday name, 'weekdays' or 'weekend' and
+ * every schedule is valid (or left empty)
+ */
+export const isValidDays = <T extends string>(days: ThemeConfig<T>['days']): boolean => {
+  if (typeof days !== 'object' || days === null || Array.isArray(days)) {
+    return false;
+  }
+  return Object.entries(days).every(
+    ([key, day]) =>
+      (WEEKDAYS.includes(key as Weekday) || key === 'weekdays' || key === 'weekend') &&
+      (!day || isValidDaySchedule(day))
+  );
+};
+
+/**
+ * Validate a date exception
+ * @param exception - Date exception
+ * @returns true if the dates are valid YYYY-MM-DD strings in order and the
+ * day schedule is valid
+ */
+export const isValidScheduleException = <T extends string>(
+  exception: ScheduleException<T>
+): boolean => {
+  if (typeof exception !== 'object' || exception === null) {
+    return false;
+  }
+  const until = exception.until ?? exception.date;
+  return (
+    typeof exception.date === 'string' &&
+    typeof until === 'string' &&
+    DATE_PATTERN.test(exception.date) &&
+    DATE_PATTERN.test(until) &&
+    exception.date <= until &&
+    isValidDaySchedule(exception)
+  );
+};
+
+/**
+ * Validate a user's schedule
+ * @param schedule - Light and dark start times
+ * @returns true if both times are valid and different
+ */
+export const isValidUserSchedule = (schedule: UserSchedule | null | undefined): schedule is UserSchedule => {
+  return (
+    typeof schedule === 'object' &&
+    schedule !== null &&
+    isValidTimeConfig(schedule.lightStart, schedule.darkStart) &&
+    timeToMinutes(schedule.lightStart) !== timeToMinutes(schedule.darkStart)
+  );
+};
+
+/**
+ * Convert a user's schedule into 24-hour times, as stored
+ * @param schedule - Valid light and dark start times
+ * @returns The times as "HH:MM" (or "HH:MM:SS") strings
+ */
+export const normalizeUserSchedule = (schedule: UserSchedule): UserSchedule => ({
+  lightStart: minutesToTime(timeToMinutes(schedule.lightStart)),
+  darkStart: minutesToTime(timeToMinutes(schedule.darkStart)),
+});
+
+/**
+ * Apply a user's schedule to a configuration
+ * It replaces the daily schedule (lightStart/darkStart, schedule and solar);
+ * weekday schedules and date exceptions still take precedence
+ * @param config - Theme configuration
+ * @param schedule - User's schedule, or null to keep the configured one
+ * @returns Configuration to schedule with
+ */
+export const applyUserSchedule = <T extends string>(
+  config: ThemeConfig<T>,
+  schedule: UserSchedule | null | undefined
+): ThemeConfig<T> => {
+  if (!schedule) {
+    return config;
+  }
+  return {
+    ...config,
+    lightStart: schedule.lightStart,
+    darkStart: schedule.darkStart,
+    schedule: undefined,
+    solar: undefined,
+  };
+};
@@ -0,0 +1,208 @@
+/**
+ * Shared scheduler for react-auto-time-theme
+ * Runs the boundary and expiry checks of all controllers from a single
+ * timer, and re-runs every check when the clock jumps or the device wakes up
+ */
+
+import {
+  SCHEDULER_HEARTBEAT_INTERVAL,
+  CLOCK_DRIFT_TOLERANCE,
+  WAKE_EVENTS,
+  VISIBILITY_CHANGE_EVENT,
+} from './constants';
+
+/**
+ * Why a task runs
+ * - 'due': its due time has come, including when that's noticed on waking up
+ * - 'wake': the device woke up, the page became visible again or the clock
+ *   changed, so the time may have jumped
+ */
+export type ScheduledTaskTrigger = 'due' | 'wake';
+
+/**
+ * A check run by the scheduler
+ */
+export interface ScheduledTask {
+  /**
+   * Current time of the task's clock (ms since epoch)
+   */
+  now(): number;
+
+  /**
+   * When the task is next due, on its own clock
+   * Has to move past the current time once the task has run
+   * @returns Timestamp (ms), or null while it isn't waiting for a time
+   */
+  getDueTime(): number | null;
+
+  /**
+   * Run the check; called when due, and whenever the time may have jumped
+   * (clock change, resume from sleep), so it must be safe to call any time
+   * @param trigger - Why the task runs
+   */
+  run(trigger: ScheduledTaskTrigger): void;
+}
+
+/**
+ * Scheduler running tasks at their due times
+ */
+export interface Scheduler {
+  /**
+   * Add a task
+   * @param task - Task to run
+   * @returns Function that removes the task
+   */
+  add(task: ScheduledTask): () => void;
+
+  /**
+   * Recompute the next timer after a task's due time changed
+   */
+  update(): void;
+}
+
+/**
+ * Get a monotonic timestamp, unaffected by clock changes
+ */
+const getMonotonicTime = (): number => {
+  return typeof performance !== 'undefined' && typeof performance.now === 'function'
+    ? performance.now()
+    : Date.now();
+};
+
+/**
+ * Create a scheduler
+ * Waits for the earliest due task with one timer, capped at the heartbeat
+ * interval while any task is due. When the timer fires late, or wall-clock
+ * time moved differently than monotonic time, the device slept or the clock
+ * changed, so every task is run to re-evaluate. Focus, pageshow, online and
+ * visibility events trigger the same re-evaluation.
+ * @returns Scheduler
+ */
+export const createScheduler = (): Scheduler => {
+  const tasks = new Set<ScheduledTask>();
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+
+  // Wall-clock and monotonic time when the timer was set, and when it should fire
+  let lastCheck: { wall: number; monotonic: number; expected: number } | null = null;
+
+  const runTasks = (all: boolean) => {
+    running = true;
+    Array.from(tasks).forEach((task) => {
+      // A task may remove others while running
+      if (!tasks.has(task)) {
+        return;
+      }
+      const dueTime = task.getDueTime();
+      const isDue = dueTime !== null && dueTime <= task.now();
+      if (!all && !isDue) {
+        return;
+      }
+      try {
+        task.run(isDue ? 'due' : 'wake');
+      } catch (error) {
+        console.warn('AutoThemeProvider: Scheduled theme check failed.', error);
+      }
+    });
+    running = false;
+  };
+
+  const hasTimeJumped = (): boolean => {
+    if (!lastCheck) {
+      return false;
+    }
+    const monotonic = getMonotonicTime();
+    const wallElapsed = Date.now() - lastCheck.wall;
+    const monotonicElapsed = monotonic - lastCheck.monotonic;
+    return (
+      Math.abs(wallElapsed - monotonicElapsed) > CLOCK_DRIFT_TOLERANCE ||
+      monotonic - lastCheck.expected > CLOCK_DRIFT_TOLERANCE
+    );
+  };
+
+  const arm = () => {
+    clearTimeout(timeout);
+    timeout = undefined;
+    lastCheck = null;
+
+    let delay: number | null = null;
+    tasks.forEach((task) => {
+      const dueTime = task.getDueTime();
+      if (dueTime !== null) {
+        const taskDelay = Math.max(dueTime - task.now(), 0);
+        delay = delay === null ? taskDelay : Math.min(delay, taskDelay);
+      }
+    });
+    if (delay === null) {
+      return;
+    }
+
+    // Wake up regularly to notice clock changes before a distant due time
+    const timerDelay = Math.min(delay, SCHEDULER_HEARTBEAT_INTERVAL);
+    const monotonic = getMonotonicTime();
+    lastCheck = { wall: Date.now(), monotonic, expected: monotonic + timerDelay };
+    timeout = setTimeout(handleTimeout, timerDelay);
+  };
+
+  const handleTimeout = () => {
+    runTasks(hasTimeJumped());
+    arm();
+  };
+
+  const handleWake = () => {
+    if (document.visibilityState === 'hidden') {
+      return;
+    }
+    runTasks(true);
+    arm();
+  };
+
+  const addListeners = () => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    WAKE_EVENTS.forEach((event) => window.addEventListener(event, handleWake));
+    document.addEventListener(VISIBILITY_CHANGE_EVENT, handleWake);
+  };
+
+  const removeListeners = () => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+    WAKE_EVENTS.forEach((event) => window.removeEventListener(event, handleWake));
+    document.removeEventListener(VISIBILITY_CHANGE_EVENT, handleWake);
+  };
+
+  const update = () => {
+    // Tasks updating while running are picked up once all have run
+    if (!running) {
+      arm();
+    }
+  };
+
+  return {
+    add: (task) => {
+      if (tasks.size === 0) {
+        addListeners();
+      }
+      tasks.add(task);
+      update();
+
+      return () => {
+        if (!tasks.delete(task)) {
+          return;
+        }
+        if (tasks.size === 0) {
+          removeListeners();
+        }
+        update();
+      };
+    },
+    update,
+  };
+};
+
+/**
+ * Scheduler shared by all controllers
+ */
+export const sharedScheduler = createScheduler();
@@ -0,0 +1,171 @@
+/**
+ * Server-side theme resolution for react-auto-time-theme
+ * Resolves the same mode and theme as AutoThemeProvider from request data,
+ * without access to window or document
+ */
+
+import { ThemeConfig, ThemeState, DefaultTheme } from './types';
+import { resolveConfig } from './config';
+import { calculateTheme, getAvailableThemes, getCurrentTime, applyUserSchedule } from './schedule';
+import { StoredThemeData, readStoredData, createMemoryStorageAdapter } from './storage';
+import { calculateProgress } from './twilight';
+import { isValidTimeZone } from './timeUtils';
+import { CLIENT_HINT_HEADER } from './constants';
+
+/**
+ * Request headers, either a Fetch API Headers object or a plain object
+ * such as Node's IncomingHttpHeaders
+ */
+export type RequestHeaders =
+  | { get(name: string): string | null }
+  | Record<string, string | string[] | undefined>;
+
+/**
+ * Request data used to resolve the theme on the server
+ */
+export interface ServerThemeRequest {
+  /**
+   * Request headers; the Cookie header and the
+   * Sec-CH-Prefers-Color-Scheme client hint are read from them
+   */
+  headers?: RequestHeaders;
+
+  /**
+   * Cookies, as a Cookie header string or already parsed
+   * Takes precedence over the Cookie header in `headers`
+   */
+  cookies?: string | Record<string, string | undefined>;
+
+  /**
+   * OS color scheme preference, takes precedence over the client hint
+   */
+  colorScheme?: string | null;
+
+  /**
+   * Time zone of the client (e.g., from a cookie or a geolocation header)
+   * Used when the config doesn't specify a time zone
+   */
+  timeZone?: string | null;
+}
+
+/**
+ * Read a header from either supported headers shape
+ */
+const getHeader = (headers: RequestHeaders | undefined, name: string): string | null => {
+  if (!headers) {
+    return null;
+  }
+  if (typeof headers.get === 'function') {
+    return (headers as { get(name: string): string | null }).get(name);
+  }
+
+  const value = (headers as Record<string, string | string[] | undefined>)[name.toLowerCase()];
+  if (Array.isArray(value)) {
+    return value.join('; ');
+  }
+  return value ?? null;
+};
+
+/**
+ * Parse a Cookie header into a name/value map
+ * @param header - Cookie header value (e.g., "a=1; b=2")
+ * @returns Decoded cookie values by name
+ */
+export const parseCookies = (header: string): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index === -1) {
+      continue;
+    }
+    const name = pair.slice(0, index).trim();
+    const value = pair.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+};
+
+/**
+ * Normalize a color scheme value to a theme
+ * @returns 'light' or 'dark', or null for anything else
+ */
+const parseColorScheme = (value: string | null | undefined): DefaultTheme | null => {
+  const scheme = value?.trim().replace(/^"|"$/g, '').toLowerCase();
+  return scheme === 'light' || scheme === 'dark' ? scheme : null;
+};
+
+/**
+ * Resolve the theme state for a request
+ * The stored mode and user's schedule are read from the cookie named after
+ * `storageKey` (or one of `previousStorageKeys`), in any format version, so
+ * the client has to persist its mode in cookies.
+ * Pass the result to AutoThemeProvider as `initialState` so the client
+ * hydrates with the same mode and theme.
+ * @param config - Theme configuration (same as passed to AutoThemeProvider)
+ * @param request - Request data
+ * @returns The mode and theme the provider would compute
+ */
+export const getServerThemeState = (
+  config: Partial<ThemeConfig> = {},
+  request: ServerThemeRequest = {}
+): ThemeState => {
+  const sharedConfig = resolveConfig(config);
+
+  // The resolved config may be reused across requests, so the client's time
+  // zone goes in a copy
+  const baseConfig =
+    !sharedConfig.timeZone && request.timeZone && isValidTimeZone(request.timeZone)
+      ? { ...sharedConfig, timeZone: request.timeZone }
+      : sharedConfig;
+
+  const cookieSource = request.cookies ?? getHeader(request.headers, 'Cookie') ?? '';
+  const cookies = typeof cookieSource === 'string' ? parseCookies(cookieSource) : cookieSource;
+
+  // Reading through an adapter upgrades legacy and renamed cookies the same
+  // way as the client; the upgraded values are only stored by the client
+  const cookieValues: Record<string, string> = {};
+  Object.entries(cookies).forEach(([name, value]) => {
+    if (value !== undefined) {
+      cookieValues[name] = value;
+    }
+  });
+  const { preference, schedule } = readStoredData(
+    baseConfig.storageKey,
+    getAvailableThemes(baseConfig),
+    createMemoryStorageAdapter(cookieValues),
+    getCurrentTime(baseConfig).getTime(),
+    baseConfig
+  ) as StoredThemeData<string>;
+  const resolvedConfig = applyUserSchedule(baseConfig, schedule);
+
+  const mode = preference?.mode ?? resolvedConfig.defaultMode;
+
+  const systemTheme = parseColorScheme(
+    request.colorScheme ?? getHeader(request.headers, CLIENT_HINT_HEADER)
+  );
+
+  return {
+    mode,
+    theme: calculateTheme(mode, resolvedConfig, systemTheme),
+    overrideUntil: preference?.until ?? null,
+    progress: calculateProgress(mode, resolvedConfig, systemTheme),
+    schedule,
+  };
+};
+
+/**
+ * Get response headers that ask the browser to send the
+ * Sec-CH-Prefers-Color-Scheme client hint on subsequent requests
+ * @returns Headers to add to the response
+ */
+export const getClientHintResponseHeaders = (): Record<string, string> => ({
+  'Accept-CH': CLIENT_HINT_HEADER,
+  'Critical-CH': CLIENT_HINT_HEADER,
+  Vary: `Cookie, ${CLIENT_HINT_HEADER}`,
+});
+
+export type { ThemeState } from './types';
@@ -0,0 +1,298 @@
+/**
+ * Solar schedule utilities for react-auto-time-theme
+ * Computes sunrise and sunset offline from coordinates and derives themes
+ * and boundaries from them
+ */
+
+import { Theme, SolarConfig } from './types';
+import { CalendarDate, addDays, getZonedDateParts, zonedTimeToDate } from './timeUtils';
+
+/**
+ * Sun zenith angle at sunrise/sunset in degrees
+ * (90° plus atmospheric refraction and the solar disc radius)
+ */
+const OFFICIAL_ZENITH = 90.833;
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Sunrise and sunset for a single calendar day
+ */
+export interface SunTimes {
+  /** Sunrise instant, or null if the sun does not rise or set that day */
+  sunrise: Date | null;
+  /** Sunset instant, or null if the sun does not rise or set that day */
+  sunset: Date | null;
+  /** The sun stays above the horizon all day (midnight sun) */
+  polarDay: boolean;
+  /** The sun stays below the horizon all day */
+  polarNight: boolean;
+}
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+const normalize = (value: number, range: number): number => {
+  const result = value % range;
+  return result < 0 ? result + range : result;
+};
+
+/**
+ * Get the 1-based day of the year for a calendar day
+ */
+const getDayOfYear = (date: CalendarDate): number => {
+  const start = Date.UTC(date.year, 0, 0);
+  const current = Date.UTC(date.year, date.month - 1, date.day);
+  return Math.round((current - start) / MS_PER_DAY);
+};
+
+/**
+ * Calculate a single sun event for a day using the sunrise/sunset algorithm
+ * from the Almanac for Computers (accurate to about a minute)
+ * @returns UTC hours of the event, or 'polar-day' / 'polar-night'
+ */
+const calculateSunEvent = (
+  dayOfYear: number,
+  latitude: number,
+  longitude: number,
+  rising: boolean
+): number | 'polar-day' | 'polar-night' => {
+  const lngHour = longitude / 15;
+  const t = dayOfYear + ((rising ? 6 : 18) - lngHour) / 24;
+
+  // Sun's mean anomaly and true longitude
+  const meanAnomaly = 0.9856 * t - 3.289;
+  const trueLongitude = normalize(
+    meanAnomaly +
+      1.916 * Math.sin(toRadians(meanAnomaly)) +
+      0.02 * Math.sin(toRadians(2 * meanAnomaly)) +
+      282.634,
+    360
+  );
+
+  // Right ascension, moved into the same quadrant as the true longitude
+  let rightAscension = normalize(
+    toDegrees(Math.atan(0.91764 * Math.tan(toRadians(trueLongitude)))),
+    360
+  );
+  rightAscension +=
+    Math.floor(trueLongitude / 90) * 90 - Math.floor(rightAscension / 90) * 90;
+  rightAscension /= 15;
+
+  // Declination and local hour angle
+  const sinDeclination = 0.39782 * Math.sin(toRadians(trueLongitude));
+  const cosDeclination = Math.cos(Math.asin(sinDeclination));
+  const cosHourAngle =
+    (Math.cos(toRadians(OFFICIAL_ZENITH)) -
+      sinDeclination * Math.sin(toRadians(latitude))) /
+    (cosDeclination * Math.cos(toRadians(latitude)));
+
+  if (cosHourAngle > 1) {
+    return 'polar-night';
+  }
+  if (cosHourAngle < -1) {
+    return 'polar-day';
+  }
+
+  const hourAngle =
+    (rising
+      ? 360 - toDegrees(Math.acos(cosHourAngle))
+      : toDegrees(Math.acos(cosHourAngle))) / 15;
+
+  const localMeanTime = hourAngle + rightAscension - 0.06571 * t - 6.622;
+  return normalize(localMeanTime - lngHour, 24);
+};
+
+/**
+ * Convert UTC hours of a sun event into an absolute Date for a calendar day.
+ * The algorithm only yields hours in [0, 24), so the UTC day is chosen to be
+ * the one closest to the event's approximate solar time.
+ */
+const toEventDate = (
+  date: CalendarDate,
+  utcHours: number,
+  longitude: number,
+  rising: boolean
+): Date => {
+  const utcMidnight = Date.UTC(date.year, date.month - 1, date.day);
+  const approximate = utcMidnight + ((rising ? 6 : 18) - longitude / 15) * MS_PER_HOUR;
+  let event = utcMidnight + utcHours * MS_PER_HOUR;
+
+  while (event - approximate > MS_PER_DAY / 2) {
+    event -= MS_PER_DAY;
+  }
+  while (approximate - event > MS_PER_DAY / 2) {
+    event += MS_PER_DAY;
+  }
+
+  return new Date(event);
+};
+
+/**
+ * Calculate sunrise and sunset for a calendar day
+ */
+const getCalendarDaySunTimes = (date: CalendarDate, latitude: number, longitude: number): SunTimes => {
+  const dayOfYear = getDayOfYear(date);
+  const sunrise = calculateSunEvent(dayOfYear, latitude, longitude, true);
+  const sunset = calculateSunEvent(dayOfYear, latitude, longitude, false);
+
+  if (typeof sunrise !== 'number' || typeof sunset !== 'number') {
+    const polar = typeof sunrise === 'number' ? sunset : sunrise;
+    return {
+      sunrise: null,
+      sunset: null,
+      polarDay: polar === 'polar-day',
+      polarNight: polar === 'polar-night',
+    };
+  }
+
+  return {
+    sunrise: toEventDate(date, sunrise, longitude, true),
+    sunset: toEventDate(date, sunset, longitude, false),
+    polarDay: false,
+    polarNight: false,
+  };
+};
+
+/**
+ * Calculate sunrise and sunset for the calendar day of a date
+ * @param date - Any instant on the day to calculate
+ * @param latitude - Latitude in degrees (north positive)
+ * @param longitude - Longitude in degrees (east positive)
+ * @param timeZone - IANA time zone name the day is taken from
+ * (defaults to the device's time zone)
+ * @returns Sun times for that day, including polar day/night flags
+ */
+export const getSunTimes = (
+  date: Date,
+  latitude: number,
+  longitude: number,
+  timeZone?: string
+): SunTimes => {
+  return getCalendarDaySunTimes(getZonedDateParts(date, timeZone), latitude, longitude);
+};
+
+/**
+ * Get the light period (sunrise to sunset, with offsets applied) of a day
+ * @returns [start, end] timestamps, or null on polar days/nights
+ */
+const getLightPeriod = (solar: SolarConfig, date: CalendarDate): [number, number] | null => {
+  const times = getCalendarDaySunTimes(date, solar.latitude, solar.longitude);
+  if (!times.sunrise || !times.sunset) {
+    return null;
+  }
+
+  return [
+    times.sunrise.getTime() + (solar.sunriseOffset ?? 0) * MS_PER_MINUTE,
+    times.sunset.getTime() + (solar.sunsetOffset ?? 0) * MS_PER_MINUTE,
+  ];
+};
+
+/**
+ * Describe the solar schedule of a calendar day
+ * The result only depends on the date, not on any time zone
+ * @param solar - Solar schedule configuration
+ * @param date - Calendar day
+ * @returns The light period as [start, end] timestamps (offsets applied),
+ * or the theme of a polar day/night
+ */
+export const getSolarDay = (solar: SolarConfig, date: CalendarDate): [number, number] | Theme => {
+  const period = getLightPeriod(solar, date);
+  if (period) {
+    return period;
+  }
+  return getCalendarDaySunTimes(date, solar.latitude, solar.longitude).polarDay ? 'light' : 'dark';
+};
+
+/**
+ * Get the theme for a solar schedule
+ * Polar day is always light and polar night is always dark
+ * @param solar - Solar schedule configuration
+ * @param now - Instant to evaluate (defaults to the current time)
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @returns 'light' between (offset) sunrise and sunset, 'dark' otherwise
+ */
+export const getSolarThemeFromTime = (
+  solar: SolarConfig,
+  now: Date = new Date(),
+  timeZone?: string
+): Theme => {
+  const today = getZonedDateParts(now, timeZone);
+  const sunTimes = getCalendarDaySunTimes(today, solar.latitude, solar.longitude);
+  if (sunTimes.polarDay) {
+    return 'light';
+  }
+  if (sunTimes.polarNight) {
+    return 'dark';
+  }
+
+  // Offsets can push yesterday's sunset past midnight, so check both days
+  const time = now.getTime();
+  const isLight = [addDays(today, -1), today].some((day) => {
+    const period = getLightPeriod(solar, day);
+    return period !== null && time >= period[0] && time < period[1];
+  });
+
+  return isLight ? 'light' : 'dark';
+};
+
+/**
+ * Calculate milliseconds until the next solar theme boundary
+ * During polar day/night the next local midnight is used as a boundary,
+ * so the schedule is re-evaluated once the sun starts rising or setting again
+ * @param solar - Solar schedule configuration
+ * @param now - Instant to measure from (defaults to the current time)
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @returns Milliseconds until next boundary
+ */
+export const getMsUntilNextSolarBoundary = (
+  solar: SolarConfig,
+  now: Date = new Date(),
+  timeZone?: string
+): number => {
+  const today = getZonedDateParts(now, timeZone);
+  const time = now.getTime();
+  const candidates: number[] = [];
+  let hasPolarPeriod = false;
+
+  for (let offset = -1; offset <= 1; offset++) {
+    const period = getLightPeriod(solar, addDays(today, offset));
+    if (period === null) {
+      hasPolarPeriod = true;
+    } else {
+      candidates.push(...period);
+    }
+  }
+
+  if (hasPolarPeriod) {
+    candidates.push(zonedTimeToDate(addDays(today, 1), 0, timeZone).getTime());
+  }
+
+  const upcoming = candidates.filter((candidate) => candidate > time);
+  if (upcoming.length === 0) {
+    return MS_PER_DAY;
+  }
+
+  return Math.min(...upcoming) - time;
+};
+
+/**
+ * Validate solar configuration
+ * @param solar - Solar schedule configuration
+ * @returns true if coordinates and offsets are valid, false otherwise
+ */
+export const isValidSolarConfig = (solar: SolarConfig): boolean => {
+  const { latitude, longitude, sunriseOffset = 0, sunsetOffset = 0 } = solar;
+  return (
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    Number.isFinite(sunriseOffset) &&
+    Number.isFinite(sunsetOffset) &&
+    latitude >= -90 &&
+    latitude <= 90 &&
+    longitude >= -180 &&
+    longitude <= 180
+  );
+};
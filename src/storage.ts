@@ -1,23 +1,47 @@
 /**
  * Storage utility for react-auto-time-theme
- * Handles localStorage operations with error handling for SSR/compatibility
+ * Handles persistence of the selected mode through pluggable storage adapters,
+ * with error handling for SSR/compatibility, and upgrades values stored in
+ * older formats
  */
 
-import { Mode } from './types';
+import {
+  Mode,
+  StorageAdapter,
+  StorageMigration,
+  CookieOptions,
+  UserSchedule,
+  ThemeConfig,
+} from './types';
+import { STORAGE_VERSION } from './constants';
+import { isValidUserSchedule, normalizeUserSchedule } from './schedule';
 
 /**
- * Check if localStorage is available
+ * Themes accepted from storage when none are specified
+ */
+const DEFAULT_STORED_THEMES = ['light', 'dark'];
+
+/**
+ * Default cookie lifetime (1 year, in seconds)
+ */
+const DEFAULT_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Check if a Web Storage area is available
  * Handles SSR environments and private browsing modes
+ * @param type - Storage area to check
  */
-export const isStorageAvailable = (): boolean => {
+export const isStorageAvailable = (
+  type: 'localStorage' | 'sessionStorage' = 'localStorage'
+): boolean => {
   if (typeof window === 'undefined') {
     return false;
   }
 
   try {
     const testKey = '__storage_test__';
-    window.localStorage.setItem(testKey, testKey);
-    window.localStorage.removeItem(testKey);
+    window[type].setItem(testKey, testKey);
+    window[type].removeItem(testKey);
     return true;
   } catch {
     return false;
@@ -25,39 +49,407 @@ export const isStorageAvailable = (): boolean => {
 };
 
 /**
- * Get stored mode from localStorage
- * @param storageKey - The localStorage key to use
- * @returns The stored mode or null if not found
+ * Create an adapter for a Web Storage area
+ * Writes throw when the storage area is unavailable
  */
-export const getStoredMode = (storageKey: string): Mode | null => {
-  if (!isStorageAvailable()) {
-    return null;
-  }
+const createWebStorageAdapter = (type: 'localStorage' | 'sessionStorage'): StorageAdapter => ({
+  type,
+  get: (key) => (isStorageAvailable(type) ? window[type].getItem(key) : null),
+  set: (key, value) => window[type].setItem(key, value),
+  remove: (key) => window[type].removeItem(key),
+});
+
+/**
+ * Create a storage adapter backed by localStorage (the default)
+ * @returns Storage adapter
+ */
+export const createLocalStorageAdapter = (): StorageAdapter => createWebStorageAdapter('localStorage');
+
+/**
+ * Create a storage adapter backed by sessionStorage
+ * The mode is kept for the lifetime of the browser tab
+ * @returns Storage adapter
+ */
+export const createSessionStorageAdapter = (): StorageAdapter => createWebStorageAdapter('sessionStorage');
+
+/**
+ * Create a storage adapter backed by a cookie, so the server can read the
+ * mode (see getServerThemeState)
+ * @param options - Cookie attributes
+ * @returns Storage adapter
+ */
+export const createCookieStorageAdapter = (options: CookieOptions = {}): StorageAdapter => {
+  const {
+    path = '/',
+    maxAge = DEFAULT_COOKIE_MAX_AGE,
+    sameSite = 'Lax',
+    domain,
+    secure = false,
+  } = options;
+
+  const writeCookie = (key: string, value: string, cookieMaxAge: number): void => {
+    if (typeof document === 'undefined') {
+      return;
+    }
+    let cookie =
+      `${encodeURIComponent(key)}=${encodeURIComponent(value)}; ` +
+      `Path=${path}; Max-Age=${cookieMaxAge}; SameSite=${sameSite}`;
+    if (domain) {
+      cookie += `; Domain=${domain}`;
+    }
+    if (secure) {
+      cookie += '; Secure';
+    }
+    document.cookie = cookie;
+  };
+
+  return {
+    type: 'cookie',
+    get: (key) => {
+      if (typeof document === 'undefined') {
+        return null;
+      }
+      const name = `${encodeURIComponent(key)}=`;
+      const cookie = document.cookie
+        .split(';')
+        .map((pair) => pair.trim())
+        .find((pair) => pair.startsWith(name));
+      return cookie ? decodeURIComponent(cookie.slice(name.length)) : null;
+    },
+    set: (key, value) => writeCookie(key, value, maxAge),
+    remove: (key) => writeCookie(key, '', 0),
+  };
+};
+
+/**
+ * Create a storage adapter that keeps values in memory
+ * Useful for tests, SSR and environments without persistent storage
+ * @param initialValues - Values to start with, by key
+ * @returns Storage adapter
+ */
+export const createMemoryStorageAdapter = (
+  initialValues: Record<string, string> = {}
+): StorageAdapter => {
+  const values = new Map(Object.entries(initialValues));
+  return {
+    type: 'memory',
+    get: (key) => values.get(key) ?? null,
+    set: (key, value) => {
+      values.set(key, value);
+    },
+    remove: (key) => {
+      values.delete(key);
+    },
+  };
+};
+
+/**
+ * Shared default adapter
+ */
+const defaultStorage = createLocalStorageAdapter();
+
+/**
+ * Check whether a storage result is a promise
+ */
+export const isPromise = <T>(value: T | Promise<T>): value is Promise<T> => {
+  return typeof (value as Promise<T> | null)?.then === 'function';
+};
+
+/**
+ * Matches a time-limited override stored in the legacy format as
+ * "<mode>@<expiry timestamp>"
+ */
+const OVERRIDE_PATTERN = /^(.+)@(\d+)$/;
 
+/**
+ * Options for reading stored values, taken from the theme configuration
+ */
+type StorageReadOptions = Pick<ThemeConfig, 'previousStorageKeys' | 'storageMigrations'>;
+
+/**
+ * Stored mode selection
+ */
+export interface StoredPreference<T extends string = 'light' | 'dark'> {
+  mode: Mode<T>;
+  /** Timestamp (ms) when the selection reverts to auto, or null if it never does */
+  until: number | null;
+}
+
+/**
+ * Everything stored for a user
+ */
+export interface StoredThemeData<T extends string = 'light' | 'dark'> {
+  /**
+   * Mode selection, or null if none is stored, it's not a known mode or the
+   * override has expired
+   */
+  preference: StoredPreference<T> | null;
+  /** The user's schedule, or null if none is stored or it's invalid */
+  schedule: UserSchedule | null;
+  /** Timestamp (ms) of the last write, or null if unknown (legacy values) */
+  updatedAt: number | null;
+  /** Format version the value was stored with, or null if there's no readable value */
+  version: number | null;
+}
+
+/**
+ * Stored data as read by readStoredData
+ */
+export interface StoredThemeRead<T extends string = 'light' | 'dark'> extends StoredThemeData<T> {
+  /**
+   * Moves the value to the storage key in the current format; null when it's
+   * already there or nothing readable is stored. Reading never writes, so
+   * this is left to the caller (the controller runs it once started)
+   */
+  upgrade: (() => void) | null;
+}
+
+/**
+ * Values written by serializePreference
+ */
+export interface PreferenceToStore {
+  /** Selected mode, or null for none (the default mode applies) */
+  mode: string | null;
+  /** Expiry timestamp (ms) of a time-limited override */
+  until?: number | null;
+  /** The user's schedule */
+  schedule?: UserSchedule | null;
+  /**
+   * Timestamp (ms) of the write
+   * @default Date.now()
+   */
+  updatedAt?: number;
+}
+
+/**
+ * Data read when nothing (readable) is stored
+ */
+const EMPTY_STORED_DATA: StoredThemeData<never> = {
+  preference: null,
+  schedule: null,
+  updatedAt: null,
+  version: null,
+};
+
+const EMPTY_STORED_READ: StoredThemeRead<never> = { ...EMPTY_STORED_DATA, upgrade: null };
+
+/**
+ * Built-in upgrades, one per format version
+ */
+const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    // Version 0 stored the mode as a bare string
+    from: 0,
+    migrate: (value) => {
+      if (typeof value !== 'string') {
+        return null;
+      }
+      const match = OVERRIDE_PATTERN.exec(value);
+      return {
+        mode: match ? match[1] : value,
+        until: match ? Number(match[2]) : null,
+        schedule: null,
+      };
+    },
+  },
+];
+
+/**
+ * Check if a storage migration has a version to upgrade from and a function
+ * @param migration - Migration to check
+ */
+export const isValidStorageMigration = (migration: StorageMigration): boolean => {
+  return (
+    typeof migration === 'object' &&
+    migration !== null &&
+    Number.isInteger(migration.from) &&
+    migration.from >= 0 &&
+    typeof migration.migrate === 'function'
+  );
+};
+
+/**
+ * Get the format version of a parsed stored value
+ * Strings and objects without a version are the legacy format (version 0)
+ */
+const getStoredVersion = (value: unknown): number => {
+  const version = (value as { version?: unknown } | null)?.version;
+  return typeof version === 'number' && Number.isInteger(version) && version > 0 ? version : 0;
+};
+
+/**
+ * Upgrade a raw stored value to the current format version
+ * Values that aren't JSON objects are legacy strings. For each version, the
+ * migrations passed in run before the built-in one, which only runs if they
+ * all return undefined. Values stored by a newer version are read as they are.
+ * @param value - Raw stored value
+ * @param key - Storage key the value was read from, passed to the migrations
+ * @param migrations - App migrations (the storageMigrations option)
+ * @returns The upgraded value and the version it was stored with, or null
+ * if a migration discarded it or threw
+ */
+export const migrateStoredValue = (
+  value: string,
+  key: string,
+  migrations: readonly StorageMigration[] = []
+): { value: unknown; version: number } | null => {
+  let parsed: unknown = value;
   try {
-    const stored = window.localStorage.getItem(storageKey);
-    if (stored === 'auto' || stored === 'light' || stored === 'dark') {
-      return stored;
+    const json: unknown = JSON.parse(value);
+    if (typeof json === 'object' && json !== null) {
+      parsed = json;
     }
-    return null;
   } catch {
-    return null;
+    // Legacy strings aren't JSON
   }
+
+  const version = getStoredVersion(parsed);
+  let upgraded = parsed;
+  for (let from = version; from < STORAGE_VERSION; from++) {
+    let next: unknown;
+    for (const migration of [...migrations, ...STORAGE_MIGRATIONS]) {
+      if (migration.from !== from) {
+        continue;
+      }
+      try {
+        next = migration.migrate(upgraded, key);
+      } catch {
+        return null;
+      }
+      if (next !== undefined) {
+        break;
+      }
+    }
+    if (next === undefined || next === null) {
+      return null;
+    }
+    upgraded = next;
+  }
+  return { value: upgraded, version };
 };
 
 /**
- * Store mode in localStorage
- * @param mode - The mode to store
- * @param storageKey - The localStorage key to use
- * @returns true if storage succeeded, false otherwise
+ * Read the fields of an upgraded stored value, dropping invalid ones
  */
-export const storeMode = (mode: Mode, storageKey: string): boolean => {
-  if (!isStorageAvailable()) {
-    return false;
+const toStoredData = <T extends string>(
+  value: unknown,
+  version: number,
+  themes: readonly T[],
+  now: number
+): StoredThemeData<T> => {
+  const {
+    mode,
+    until = null,
+    schedule,
+    updatedAt,
+  } = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+
+  const isKnownMode =
+    typeof mode === 'string' &&
+    (mode === 'auto' || mode === 'system' || mode === 'ambient' || themes.includes(mode as T));
+  const isValidUntil = until === null || (typeof until === 'number' && Number.isFinite(until));
+
+  return {
+    preference:
+      isKnownMode && isValidUntil && (until === null || (until as number) > now)
+        ? { mode: mode as Mode<T>, until: until as number | null }
+        : null,
+    schedule: isValidUserSchedule(schedule as UserSchedule)
+      ? normalizeUserSchedule(schedule as UserSchedule)
+      : null,
+    updatedAt: typeof updatedAt === 'number' && Number.isFinite(updatedAt) ? updatedAt : null,
+    version,
+  };
+};
+
+/**
+ * Serialize a mode selection and the user's schedule for storage
+ * @param preference - Values to store
+ * @returns JSON in the current format version
+ *
+ * @example
+ * serializePreference({ mode: 'dark', until: 1717272000000 });
+ * // '{"version":1,"mode":"dark","until":1717272000000,"schedule":null,"updatedAt":...}'
+ */
+export const serializePreference = ({
+  mode,
+  until = null,
+  schedule = null,
+  updatedAt = Date.now(),
+}: PreferenceToStore): string => {
+  return JSON.stringify({
+    version: STORAGE_VERSION,
+    mode,
+    until: until === null ? null : Math.round(until),
+    schedule: schedule && normalizeUserSchedule(schedule),
+    updatedAt,
+  });
+};
+
+/**
+ * Parse a stored value of any format version
+ * Corrupt values and invalid fields are ignored rather than thrown
+ * @param value - Raw stored value
+ * @param themes - Theme names accepted as a stored mode (defaults to light and dark)
+ * @param now - Timestamp (ms) to check the expiry against (defaults to now)
+ * @param migrations - App migrations (the storageMigrations option)
+ * @param key - Storage key the value was read from, passed to the migrations
+ * @returns The readable parts of the value
+ */
+export const parseStoredData = <T extends string = 'light' | 'dark'>(
+  value: string | null | undefined,
+  themes: readonly T[] = DEFAULT_STORED_THEMES as T[],
+  now: number = Date.now(),
+  migrations: readonly StorageMigration[] = [],
+  key: string = ''
+): StoredThemeData<T> => {
+  if (typeof value !== 'string') {
+    return EMPTY_STORED_DATA;
   }
+  const migrated = migrateStoredValue(value, key, migrations);
+  return migrated ? toStoredData(migrated.value, migrated.version, themes, now) : EMPTY_STORED_DATA;
+};
+
+/**
+ * Parse a stored mode selection
+ * @param value - Raw stored value, in any format version
+ * @param themes - Theme names accepted as a stored mode (defaults to light and dark)
+ * @param now - Timestamp (ms) to check the expiry against (defaults to now)
+ * @returns The selection, or null if the value is not a known mode or the
+ * override has expired
+ */
+export const parseStoredPreference = <T extends string = 'light' | 'dark'>(
+  value: string | null | undefined,
+  themes: readonly T[] = DEFAULT_STORED_THEMES as T[],
+  now: number = Date.now()
+): StoredPreference<T> | null => {
+  return parseStoredData(value, themes, now).preference;
+};
 
+/**
+ * Parse a stored mode value
+ * @param value - Raw stored value, in any format version
+ * @param themes - Theme names accepted as a stored mode (defaults to light and dark)
+ * @returns The mode, or null if the value is not a known mode or the
+ * override has expired
+ */
+export const parseStoredMode = <T extends string = 'light' | 'dark'>(
+  value: string | null | undefined,
+  themes: readonly T[] = DEFAULT_STORED_THEMES as T[]
+): Mode<T> | null => {
+  return parseStoredPreference(value, themes)?.mode ?? null;
+};
+
+/**
+ * Run a storage write, catching both synchronous and asynchronous failures
+ * @returns false if the write failed synchronously, true otherwise
+ */
+const runWrite = (write: () => void | Promise<void>): boolean => {
   try {
-    window.localStorage.setItem(storageKey, mode);
+    const result = write();
+    if (isPromise(result)) {
+      result.catch(() => undefined);
+    }
     return true;
   } catch {
     return false;
@@ -65,29 +457,222 @@ export const storeMode = (mode: Mode, storageKey: string): boolean => {
 };
 
 /**
- * Remove stored mode from localStorage
- * @param storageKey - The localStorage key to use
- * @returns true if removal succeeded, false otherwise
+ * Read the first key with a stored value, with the write that moves it to
+ * the first key in the current format when it's older or stored elsewhere
+ * @param keys - The storage key followed by the previous ones
+ * @param values - The value of each key
  */
-export const clearStoredMode = (storageKey: string): boolean => {
-  if (!isStorageAvailable()) {
-    return false;
+const readStoredValues = <T extends string>(
+  keys: string[],
+  values: Array<string | null>,
+  storage: StorageAdapter,
+  themes: readonly T[],
+  now: number,
+  migrations?: readonly StorageMigration[]
+): StoredThemeRead<T> => {
+  const index = values.findIndex((value) => value !== null);
+  if (index === -1) {
+    return EMPTY_STORED_READ;
+  }
+
+  const key = keys[index];
+  const stored = parseStoredData(values[index], themes, now, migrations, key);
+
+  // Unreadable values are left alone, e.g. for a newer version of the app
+  const isCurrent = index === 0 && (stored.version === null || stored.version >= STORAGE_VERSION);
+  if (isCurrent) {
+    return { ...stored, upgrade: null };
   }
 
+  const upgrade = () => {
+    if (stored.preference || stored.schedule) {
+      storePreference(
+        {
+          mode: stored.preference?.mode ?? null,
+          until: stored.preference?.until ?? null,
+          schedule: stored.schedule,
+          updatedAt: stored.updatedAt ?? now,
+        },
+        keys[0],
+        storage
+      );
+    } else if (index === 0) {
+      clearStoredMode(keys[0], storage);
+    }
+    if (index > 0) {
+      clearStoredMode(key, storage);
+    }
+  };
+  return { ...stored, upgrade };
+};
+
+/**
+ * Read everything stored for a user, synchronously when the adapter allows it
+ * A value in an older format or under a previous storage key is upgraded;
+ * call `upgrade` on the result to move it to the storage key.
+ * @param storageKey - The storage key to use
+ * @param themes - Theme names accepted as a stored mode (defaults to light and dark)
+ * @param storage - Storage adapter (defaults to localStorage)
+ * @param now - Timestamp (ms) to check the expiry against (defaults to now)
+ * @param options - The previousStorageKeys and storageMigrations options
+ * @returns The stored data, or a promise of it for asynchronous adapters
+ */
+export const readStoredData = <T extends string = 'light' | 'dark'>(
+  storageKey: string,
+  themes: readonly T[] = DEFAULT_STORED_THEMES as T[],
+  storage: StorageAdapter = defaultStorage,
+  now: number = Date.now(),
+  options: StorageReadOptions = {}
+): StoredThemeRead<T> | Promise<StoredThemeRead<T>> => {
+  const keys = [storageKey, ...(options.previousStorageKeys ?? [])];
+  const read = (values: Array<string | null>) =>
+    readStoredValues(keys, values, storage, themes, now, options.storageMigrations);
+
   try {
-    window.localStorage.removeItem(storageKey);
-    return true;
+    const values = keys.map((key) => storage.get(key));
+    if (values.some(isPromise)) {
+      return Promise.all(values).then(read, () => EMPTY_STORED_READ);
+    }
+    return read(values as Array<string | null>);
   } catch {
-    return false;
+    return EMPTY_STORED_READ;
+  }
+};
+
+/**
+ * Read the stored mode selection, synchronously when the adapter allows it
+ * @param storageKey - The storage key to use
+ * @param themes - Theme names accepted as a stored mode (defaults to light and dark)
+ * @param storage - Storage adapter (defaults to localStorage)
+ * @param now - Timestamp (ms) to check the expiry against (defaults to now)
+ * @param options - The previousStorageKeys and storageMigrations options
+ * @returns The stored selection or null, or a promise of it for asynchronous adapters
+ */
+export const readStoredPreference = <T extends string = 'light' | 'dark'>(
+  storageKey: string,
+  themes: readonly T[] = DEFAULT_STORED_THEMES as T[],
+  storage: StorageAdapter = defaultStorage,
+  now?: number,
+  options?: StorageReadOptions
+): StoredPreference<T> | null | Promise<StoredPreference<T> | null> => {
+  const stored = readStoredData(storageKey, themes, storage, now, options);
+  if (isPromise(stored)) {
+    return stored.then(({ preference }) => preference);
+  }
+  return stored.preference;
+};
+
+/**
+ * Read stored mode, synchronously when the adapter allows it
+ * @param storageKey - The storage key to use
+ * @param themes - Theme names accepted as a stored mode (defaults to light and dark)
+ * @param storage - Storage adapter (defaults to localStorage)
+ * @returns The stored mode or null, or a promise of it for asynchronous adapters
+ */
+export const readStoredMode = <T extends string = 'light' | 'dark'>(
+  storageKey: string,
+  themes: readonly T[] = DEFAULT_STORED_THEMES as T[],
+  storage: StorageAdapter = defaultStorage
+): Mode<T> | null | Promise<Mode<T> | null> => {
+  const stored = readStoredPreference(storageKey, themes, storage);
+  if (isPromise(stored)) {
+    return stored.then((preference) => preference?.mode ?? null);
   }
+  return stored?.mode ?? null;
+};
+
+/**
+ * Get stored mode synchronously
+ * Returns null for asynchronous adapters; use loadStoredMode for those
+ * @param storageKey - The storage key to use
+ * @param themes - Theme names accepted as a stored mode (defaults to light and dark)
+ * @param storage - Storage adapter (defaults to localStorage)
+ * @returns The stored mode or null if not found
+ */
+export const getStoredMode = <T extends string = 'light' | 'dark'>(
+  storageKey: string,
+  themes: readonly T[] = DEFAULT_STORED_THEMES as T[],
+  storage: StorageAdapter = defaultStorage
+): Mode<T> | null => {
+  const stored = readStoredMode(storageKey, themes, storage);
+  return isPromise(stored) ? null : stored;
+};
+
+/**
+ * Load stored mode from a synchronous or asynchronous adapter
+ * @param storageKey - The storage key to use
+ * @param themes - Theme names accepted as a stored mode (defaults to light and dark)
+ * @param storage - Storage adapter (defaults to localStorage)
+ * @returns Promise of the stored mode, or null if not found or loading failed
+ */
+export const loadStoredMode = <T extends string = 'light' | 'dark'>(
+  storageKey: string,
+  themes: readonly T[] = DEFAULT_STORED_THEMES as T[],
+  storage: StorageAdapter = defaultStorage
+): Promise<Mode<T> | null> => {
+  return Promise.resolve(readStoredMode(storageKey, themes, storage));
+};
+
+/**
+ * Store a mode selection and the user's schedule
+ * Asynchronous writes are not awaited
+ * @param preference - Values to store
+ * @param storageKey - The storage key to use
+ * @param storage - Storage adapter (defaults to localStorage)
+ * @returns true if storage succeeded (or was started), false otherwise
+ */
+export const storePreference = (
+  preference: PreferenceToStore,
+  storageKey: string,
+  storage: StorageAdapter = defaultStorage
+): boolean => {
+  return runWrite(() => storage.set(storageKey, serializePreference(preference)));
+};
+
+/**
+ * Store mode
+ * Replaces the whole stored value, including a user's schedule; use
+ * storePreference to keep it. Asynchronous writes are not awaited
+ * @param mode - The mode to store
+ * @param storageKey - The storage key to use
+ * @param storage - Storage adapter (defaults to localStorage)
+ * @param until - Expiry timestamp (ms) of a time-limited override
+ * @returns true if storage succeeded (or was started), false otherwise
+ */
+export const storeMode = <T extends string>(
+  mode: Mode<T>,
+  storageKey: string,
+  storage: StorageAdapter = defaultStorage,
+  until: number | null = null
+): boolean => {
+  return storePreference({ mode, until }, storageKey, storage);
+};
+
+/**
+ * Remove the stored mode and user's schedule
+ * Asynchronous removals are not awaited
+ * @param storageKey - The storage key to use
+ * @param storage - Storage adapter (defaults to localStorage)
+ * @returns true if removal succeeded (or was started), false otherwise
+ */
+export const clearStoredMode = (storageKey: string, storage: StorageAdapter = defaultStorage): boolean => {
+  return runWrite(() => storage.remove(storageKey));
 };
 
 /**
  * Get stored mode with fallback
- * @param storageKey - The localStorage key to use
+ * @param storageKey - The storage key to use
  * @param defaultMode - Default mode if nothing is stored
+ * @param themes - Theme names accepted as a stored mode (defaults to light and dark)
+ * @param storage - Storage adapter (defaults to localStorage)
  * @returns The stored mode or default mode
  */
-export const getStoredModeWithFallback = (storageKey: string, defaultMode: Mode): Mode => {
-  return getStoredMode(storageKey) ?? defaultMode;
+export const getStoredModeWithFallback = <T extends string = 'light' | 'dark'>(
+  storageKey: string,
+  defaultMode: Mode<T>,
+  themes?: readonly T[],
+  storage?: StorageAdapter
+): Mode<T> => {
+  return getStoredMode(storageKey, themes, storage) ?? defaultMode;
 };
+
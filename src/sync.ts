@@ -0,0 +1,150 @@
+/**
+ * Cross-tab synchronization for react-auto-time-theme
+ * Propagates mode changes between tabs and windows of the same origin via
+ * BroadcastChannel, falling back to the storage event
+ */
+
+import { STORAGE_EVENT, SYNC_CHANNEL_NAME } from './constants';
+
+/**
+ * Message posted to other tabs when the stored mode or schedule changes
+ */
+export interface ModeChangeMessage {
+  storageKey: string;
+  /** The new stored value, as serialized by serializePreference */
+  value: string;
+  /** When the change was made (ms since epoch) */
+  timestamp: number;
+  /** Id of the sender, used to ignore own messages and break timestamp ties */
+  source: string;
+}
+
+/**
+ * Handle to an active mode synchronization
+ */
+export interface ModeSync {
+  /**
+   * Tell other tabs about a local change of the stored value
+   * @param value - The new stored value, as serialized by serializePreference
+   */
+  publish(value: string): void;
+
+  /**
+   * Stop listening and release the channel
+   */
+  close(): void;
+}
+
+/**
+ * Check if BroadcastChannel is available
+ */
+const isBroadcastChannelAvailable = (): boolean => {
+  return typeof BroadcastChannel === 'function';
+};
+
+/**
+ * Adapter types whose values only the current tab can read
+ * Their changes are only synced through storage events, which reach the
+ * frames sharing the storage area rather than every tab
+ */
+const PER_TAB_STORAGE_TYPES = ['sessionStorage', 'memory'];
+
+/**
+ * Check whether a change is newer than another
+ * Equal timestamps are ordered by source id, so every tab settles on the same mode
+ */
+const isNewerChange = (
+  change: { timestamp: number; source: string },
+  than: { timestamp: number; source: string }
+): boolean => {
+  return (
+    change.timestamp > than.timestamp ||
+    (change.timestamp === than.timestamp && change.source > than.source)
+  );
+};
+
+/**
+ * Sync the mode stored under a key with other tabs
+ * Uses BroadcastChannel when available and the storage is shared between
+ * tabs; otherwise listens for storage events, which only works with
+ * localStorage and sessionStorage adapters.
+ * Changes older than the last known change are ignored, and received changes
+ * are never published again, so tabs don't echo each other.
+ * @param storageKey - The storage key the mode is stored under
+ * @param storageType - Type of the storage adapter used by the provider
+ * @param onChange - Called with the value stored in another tab, or null if
+ * it was removed from storage
+ * @returns Handle to publish local changes and stop syncing
+ */
+export const createModeSync = (
+  storageKey: string,
+  storageType: string | undefined,
+  onChange: (value: string | null) => void
+): ModeSync => {
+  if (typeof window === 'undefined') {
+    return { publish: () => {}, close: () => {} };
+  }
+
+  const source = Math.random().toString(36).slice(2);
+  let lastChange = { timestamp: 0, source: '' };
+
+  if (isBroadcastChannelAvailable() && !PER_TAB_STORAGE_TYPES.includes(storageType ?? '')) {
+    const channel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+
+    channel.onmessage = (event: MessageEvent<ModeChangeMessage>) => {
+      const message = event.data;
+      if (
+        !message ||
+        message.storageKey !== storageKey ||
+        message.source === source ||
+        !isNewerChange(message, lastChange)
+      ) {
+        return;
+      }
+      lastChange = { timestamp: message.timestamp, source: message.source };
+      onChange(message.value);
+    };
+
+    return {
+      publish: (value) => {
+        lastChange = { timestamp: Date.now(), source };
+        const message: ModeChangeMessage = { storageKey, value, ...lastChange };
+        try {
+          channel.postMessage(message);
+        } catch {
+          // Channel closed, nothing to sync
+        }
+      },
+      close: () => channel.close(),
+    };
+  }
+
+  // Fallback: storage events fire in every other tab sharing the storage area
+  if (storageType !== 'localStorage' && storageType !== 'sessionStorage') {
+    return { publish: () => {}, close: () => {} };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    // A null key means the storage area was cleared
+    if (event.key !== storageKey && event.key !== null) {
+      return;
+    }
+    try {
+      if (event.storageArea !== window[storageType]) {
+        return;
+      }
+      // Read the current value, as events may arrive after a newer write
+      onChange(window[storageType].getItem(storageKey));
+    } catch {
+      // Storage unavailable, nothing to sync
+    }
+  };
+
+  window.addEventListener(STORAGE_EVENT, handleStorage);
+
+  return {
+    // The storage write itself notifies the other tabs
+    publish: () => {},
+    close: () => window.removeEventListener(STORAGE_EVENT, handleStorage),
+  };
+};
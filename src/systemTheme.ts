@@ -0,0 +1,72 @@
+/**
+ * System color scheme utilities for react-auto-time-theme
+ * Reads and watches the OS preference via prefers-color-scheme
+ */
+
+import { DefaultTheme } from './types';
+import { DARK_SCHEME_QUERY, LIGHT_SCHEME_QUERY } from './constants';
+
+/**
+ * Check if matchMedia is available
+ * Handles SSR environments and older test environments
+ */
+const isMatchMediaAvailable = (): boolean => {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function';
+};
+
+/**
+ * Get the OS color scheme preference
+ * @returns 'dark' or 'light', or null if the user has no preference
+ * or it cannot be detected
+ */
+export const getSystemTheme = (): DefaultTheme | null => {
+  if (!isMatchMediaAvailable()) {
+    return null;
+  }
+
+  if (window.matchMedia(DARK_SCHEME_QUERY).matches) {
+    return 'dark';
+  }
+  if (window.matchMedia(LIGHT_SCHEME_QUERY).matches) {
+    return 'light';
+  }
+  return null;
+};
+
+/**
+ * Subscribe to changes of the OS color scheme preference
+ * @param callback - Called with the new preference whenever it changes
+ * @returns Function that removes the subscription
+ */
+export const subscribeToSystemTheme = (
+  callback: (theme: DefaultTheme | null) => void
+): (() => void) => {
+  if (!isMatchMediaAvailable()) {
+    return () => {};
+  }
+
+  const queries = [
+    window.matchMedia(DARK_SCHEME_QUERY),
+    window.matchMedia(LIGHT_SCHEME_QUERY),
+  ];
+  const handleChange = () => callback(getSystemTheme());
+
+  queries.forEach((query) => {
+    if (typeof query.addEventListener === 'function') {
+      query.addEventListener('change', handleChange);
+    } else {
+      // Safari < 14
+      query.addListener(handleChange);
+    }
+  });
+
+  return () => {
+    queries.forEach((query) => {
+      if (typeof query.removeEventListener === 'function') {
+        query.removeEventListener('change', handleChange);
+      } else {
+        query.removeListener(handleChange);
+      }
+    });
+  };
+};
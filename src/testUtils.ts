@@ -0,0 +1,247 @@
+/**
+ * Test utilities for react-auto-time-theme
+ * Simulated clock, light sensor and a controller harness to test scheduling
+ * deterministically, without timers, sensors or real storage
+ */
+
+import { ThemeConfig, Theme, Mode, AmbientLightSource, ThemeChangeReason } from './types';
+import { ThemeController } from './ThemeController';
+import { getMsUntilScheduledBoundary } from './schedule';
+import { createMemoryStorageAdapter } from './storage';
+import { Scheduler } from './scheduler';
+
+/**
+ * Simulated clock, passed to the config as `now`
+ */
+export interface MockClock {
+  /** Get the simulated time */
+  now: () => Date;
+
+  /**
+   * Jump to a time
+   * @param time - Date, timestamp (ms) or date string
+   */
+  set(time: Date | number | string): void;
+
+  /**
+   * Move the time forward
+   * @param ms - Milliseconds to advance
+   */
+  advance(ms: number): void;
+}
+
+/**
+ * Simulated light sensor, passed to the config as `ambient.sensor`
+ */
+export interface MockLightSensor extends AmbientLightSource {
+  /**
+   * Report a reading to all subscribers
+   * @param lux - Illuminance, or null to simulate a missing or failed sensor
+   */
+  emit(lux: number | null): void;
+
+  /** Number of active subscriptions */
+  readonly subscriberCount: number;
+}
+
+/**
+ * A recorded onThemeChange call
+ */
+export interface ThemeChange {
+  theme: Theme;
+  mode: Mode;
+  reason: ThemeChangeReason;
+}
+
+/**
+ * Controller running on a simulated clock
+ */
+export interface ThemeTestHarness {
+  controller: ThemeController;
+  clock: MockClock;
+  /** onThemeChange calls, oldest first */
+  changes: ThemeChange[];
+
+  /**
+   * Advance the clock and re-evaluate the theme, as the scheduler would
+   * @param ms - Milliseconds to advance
+   */
+  advance(ms: number): void;
+
+  /**
+   * Advance the clock to the next scheduled boundary and re-evaluate the theme
+   * @returns Milliseconds advanced
+   */
+  advanceToNextBoundary(): number;
+
+  /**
+   * Stop the controller
+   */
+  destroy(): void;
+}
+
+/**
+ * Convert a time to a timestamp
+ */
+const toTimestamp = (time: Date | number | string): number => {
+  const timestamp = time instanceof Date ? time.getTime() : new Date(time).getTime();
+  if (!Number.isFinite(timestamp)) {
+    throw new Error(`Invalid time: "${String(time)}"`);
+  }
+  return timestamp;
+};
+
+/**
+ * Create a simulated clock
+ * @param start - Initial time (defaults to the current time)
+ * @returns Clock that only moves when set or advanced
+ *
+ * @example
+ * const clock = createMockClock('2024-06-01T21:59:00');
+ * render(<AutoThemeProvider config={{ now: clock.now }}>...</AutoThemeProvider>);
+ */
+export const createMockClock = (start: Date | number | string = Date.now()): MockClock => {
+  let current = toTimestamp(start);
+
+  return {
+    now: () => new Date(current),
+    set: (time) => {
+      current = toTimestamp(time);
+    },
+    advance: (ms) => {
+      current += ms;
+    },
+  };
+};
+
+/**
+ * Create a simulated light sensor
+ * @param initialLux - Reading reported to each new subscriber, if any
+ * @returns Sensor that only reports readings when emit() is called
+ *
+ * @example
+ * const sensor = createMockLightSensor(400);
+ * const harness = createThemeTestHarness({ defaultMode: 'ambient', ambient: { sensor } });
+ * sensor.emit(10);
+ */
+export const createMockLightSensor = (initialLux?: number | null): MockLightSensor => {
+  const listeners = new Set<(lux: number | null) => void>();
+  let lux = initialLux;
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      if (lux !== undefined) {
+        listener(lux);
+      }
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit: (value) => {
+      lux = value;
+      Array.from(listeners).forEach((listener) => listener(value));
+    },
+    get subscriberCount() {
+      return listeners.size;
+    },
+  };
+};
+
+/**
+ * Scheduler that never runs its tasks, so harnesses set no timers and add no
+ * wake-up listeners; the harness re-evaluates the theme when advanced instead
+ */
+const manualScheduler: Scheduler = {
+  add: () => () => {},
+  update: () => {},
+};
+
+/**
+ * Create a controller running on a simulated clock
+ * The mode is kept in memory and tabs aren't synced, unless the config
+ * specifies otherwise. No timers are set; the theme is only re-evaluated
+ * when the harness is advanced. onThemeChange calls are recorded in `changes`.
+ * @param config - Theme configuration options
+ * @param start - Initial time of the clock (defaults to the current time)
+ * @returns Test harness
+ *
+ * @example
+ * const harness = createThemeTestHarness({ lightStart: '07:00', darkStart: '22:00' }, '2024-06-01T21:00:00');
+ * harness.advanceToNextBoundary();
+ * assertThemeChanges(harness.changes, ['dark']);
+ */
+export const createThemeTestHarness = (
+  config: Partial<ThemeConfig> = {},
+  start?: Date | number | string
+): ThemeTestHarness => {
+  const clock = createMockClock(start);
+  const changes: ThemeChange[] = [];
+
+  const controller = new ThemeController(
+    {
+      storage: createMemoryStorageAdapter(),
+      syncTabs: false,
+      ...config,
+      now: clock.now,
+      onThemeChange: (theme, mode, event) => {
+        changes.push({ theme, mode, reason: event.reason });
+        config.onThemeChange?.(theme, mode, event);
+      },
+    },
+    { scheduler: manualScheduler }
+  );
+  controller.start();
+
+  const advance = (ms: number) => {
+    clock.advance(ms);
+    controller.refresh();
+  };
+
+  return {
+    controller,
+    clock,
+    changes,
+    advance,
+    advanceToNextBoundary: () => {
+      const ms = getMsUntilScheduledBoundary(controller.getConfig(), clock.now());
+      advance(ms);
+      return ms;
+    },
+    destroy: () => controller.destroy(),
+  };
+};
+
+/**
+ * Assert the recorded onThemeChange calls
+ * Works with any test runner, as it throws a plain Error on mismatch
+ * @param changes - Recorded calls (e.g., harness.changes)
+ * @param expected - Expected calls in order, as themes or partial changes
+ * (e.g., { theme: 'dark', reason: 'schedule' })
+ */
+export const assertThemeChanges = (
+  changes: readonly ThemeChange[],
+  expected: ReadonlyArray<Theme | Partial<ThemeChange>>
+): void => {
+  const format = (items: ReadonlyArray<Theme | Partial<ThemeChange>>) => JSON.stringify(items);
+
+  const matches =
+    changes.length === expected.length &&
+    expected.every((item, index) => {
+      const change = changes[index];
+      if (typeof item === 'string') {
+        return change.theme === item;
+      }
+      return (
+        (item.theme === undefined || change.theme === item.theme) &&
+        (item.mode === undefined || change.mode === item.mode) &&
+        (item.reason === undefined || change.reason === item.reason)
+      );
+    });
+
+  if (!matches) {
+    throw new Error(
+      `Expected theme changes ${format(expected)}, but received ${format(changes)}`
+    );
+  }
+};
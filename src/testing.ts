@@ -0,0 +1,15 @@
+/**
+ * react-auto-time-theme/testing
+ * Utilities to test themed components and schedules deterministically
+ */
+
+export type { MockClock, MockLightSensor, ThemeChange, ThemeTestHarness } from './testUtils';
+
+export { MockAutoThemeProvider } from './MockAutoThemeProvider';
+
+export {
+  createMockClock,
+  createMockLightSensor,
+  createThemeTestHarness,
+  assertThemeChanges,
+} from './testUtils';
@@ -3,24 +3,19 @@
  * Handles time parsing, comparison, and boundary calculations
  */
 
-import { Theme } from './types';
+import { Theme, ScheduleSegment, TimeOfDay } from './types';
 
 /**
- * Convert a time string (e.g., "07:00" or "7:00") to minutes from midnight
- * @param time - Time string in HH:MM format
- * @returns Minutes from midnight (0-1439)
+ * AM/PM suffix of a 12-hour time (e.g., " PM", "am", " p.m.")
  */
-export const timeToMinutes = (time: string): number => {
-  const parts = time.trim().split(':');
-  if (parts.length !== 2) {
-    throw new Error(`Invalid time format: "${time}". Expected HH:MM format.`);
-  }
-
-  const hours = parseInt(parts[0], 10);
-  const minutes = parseInt(parts[1], 10);
+const MERIDIEM_PATTERN = /\s*([ap])\.?\s*m\.?$/i;
 
-  if (isNaN(hours) || isNaN(minutes)) {
-    throw new Error(`Invalid time values: "${time}". Hours and minutes must be numbers.`);
+/**
+ * Check the fields of a 24-hour time and convert them to minutes from midnight
+ */
+const fieldsToMinutes = (hours: number, minutes: number, seconds: number, time: string): number => {
+  if (![hours, minutes, seconds].every(Number.isInteger)) {
+    throw new Error(`Invalid time values: "${time}". Hours, minutes and seconds must be whole numbers.`);
   }
 
   if (hours < 0 || hours > 23) {
@@ -31,27 +26,265 @@ export const timeToMinutes = (time: string): number => {
     throw new Error(`Invalid minute value: "${minutes}". Minutes must be between 0 and 59.`);
   }
 
-  return hours * 60 + minutes;
+  if (seconds < 0 || seconds > 59) {
+    throw new Error(`Invalid second value: "${seconds}". Seconds must be between 0 and 59.`);
+  }
+
+  return hours * 60 + minutes + seconds / 60;
+};
+
+/**
+ * Convert a time of day to minutes from midnight
+ * Accepts "07:00", "7:00", "19:30:15", "7:30 PM", "7 pm" and
+ * { hour, minute, second } objects
+ * @param time - Time of day
+ * @returns Minutes from midnight (0-1439), with seconds as a fraction
+ * @throws Error describing why the time is invalid
+ */
+export const timeToMinutes = (time: TimeOfDay): number => {
+  if (typeof time === 'object' && time !== null) {
+    const { hour, minute = 0, second = 0 } = time;
+    return fieldsToMinutes(hour, minute, second, JSON.stringify(time));
+  }
+  if (typeof time !== 'string') {
+    throw new Error(`Invalid time format: "${String(time)}". Expected a string or { hour, minute } object.`);
+  }
+
+  const value = time.trim();
+  const meridiem = MERIDIEM_PATTERN.exec(value);
+  const parts = (meridiem ? value.slice(0, meridiem.index) : value).split(':');
+  if (parts.length > 3 || (parts.length === 1 && !meridiem)) {
+    throw new Error(`Invalid time format: "${time}". Expected HH:MM, HH:MM:SS or h:mm AM/PM format.`);
+  }
+
+  if (!parts.every((part) => /^\d{1,2}$/.test(part))) {
+    throw new Error(`Invalid time values: "${time}". Hours, minutes and seconds must be numbers.`);
+  }
+
+  const [hours, minutes = 0, seconds = 0] = parts.map(Number);
+  if (!meridiem) {
+    return fieldsToMinutes(hours, minutes, seconds, time);
+  }
+
+  if (hours < 1 || hours > 12) {
+    throw new Error(`Invalid hour value: "${hours}". Hours must be between 1 and 12 with AM/PM.`);
+  }
+  // 12 AM is midnight and 12 PM is noon
+  const isPm = meridiem[1].toLowerCase() === 'p';
+  return fieldsToMinutes((hours % 12) + (isPm ? 12 : 0), minutes, seconds, time);
+};
+
+/**
+ * Format minutes from midnight as a 24-hour time
+ * @param minutes - Minutes from midnight, with seconds as a fraction
+ * @returns "HH:MM", or "HH:MM:SS" when there are seconds
+ */
+export const minutesToTime = (minutes: number): string => {
+  const totalSeconds = Math.round(minutes * 60) % (24 * 60 * 60);
+  const fields = [Math.floor(totalSeconds / 3600), Math.floor(totalSeconds / 60) % 60];
+  if (totalSeconds % 60 !== 0) {
+    fields.push(totalSeconds % 60);
+  }
+  return fields.map((field) => String(field).padStart(2, '0')).join(':');
+};
+
+/**
+ * A calendar day, independent of any time zone
+ */
+export interface CalendarDate {
+  year: number;
+  /** Month of the year (1-12) */
+  month: number;
+  /** Day of the month (1-31) */
+  day: number;
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export interface ZonedDateParts extends CalendarDate {
+  /** Minutes from midnight (0-1439), with seconds as a fraction */
+  minutes: number;
+}
+
+/**
+ * Cached formatters by time zone, as creating them is expensive
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hour12: false,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Read the wall-clock fields of an instant in a time zone
+ */
+const getZonedFields = (instant: number, timeZone: string): Record<string, number> => {
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      fields[part.type] = parseInt(part.value, 10);
+    }
+  }
+  // Some engines format midnight as hour 24
+  fields.hour %= 24;
+  return fields;
+};
+
+/**
+ * Get the offset of a time zone from UTC at an instant
+ * @returns Offset in milliseconds (positive east of UTC)
+ */
+const getTimeZoneOffset = (instant: number, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = getZonedFields(instant, timeZone);
+  const wholeSeconds = instant - (((instant % 1000) + 1000) % 1000);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - wholeSeconds;
+};
+
+/**
+ * Check whether a string is an IANA time zone name supported by the runtime
+ * @param timeZone - Time zone name (e.g., "Europe/Berlin")
+ * @returns true if the time zone can be used, false otherwise
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the wall-clock date and time of an instant
+ * @param date - Instant to convert (defaults to the current time)
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @returns Calendar day and minutes from midnight in that time zone
+ */
+export const getZonedDateParts = (date: Date = new Date(), timeZone?: string): ZonedDateParts => {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      minutes: date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60,
+    };
+  }
+
+  const { year, month, day, hour, minute, second } = getZonedFields(date.getTime(), timeZone);
+  return { year, month, day, minutes: hour * 60 + minute + second / 60 };
+};
+
+/**
+ * Convert a wall-clock time in a time zone to an instant
+ * Ambiguous times (when clocks go back) resolve to their first occurrence and
+ * skipped times (when clocks go forward) to the moment after the gap
+ * @param date - Calendar day
+ * @param minutes - Minutes from midnight (fractions for seconds)
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @returns The instant of that wall-clock time
+ */
+export const zonedTimeToDate = (date: CalendarDate, minutes: number, timeZone?: string): Date => {
+  const ms = Math.round(minutes * 60 * 1000);
+  if (!timeZone) {
+    return new Date(date.year, date.month - 1, date.day, 0, 0, 0, ms);
+  }
+
+  const wallClock = Date.UTC(date.year, date.month - 1, date.day, 0, 0, 0, ms);
+  const firstOffset = getTimeZoneOffset(wallClock, timeZone);
+  const secondOffset = getTimeZoneOffset(wallClock - firstOffset, timeZone);
+  const candidates = [wallClock - firstOffset, wallClock - secondOffset];
+
+  const valid = candidates.filter(
+    (candidate) => wallClock - getTimeZoneOffset(candidate, timeZone) === candidate
+  );
+  return new Date(valid.length > 0 ? Math.min(...valid) : Math.max(...candidates));
+};
+
+/**
+ * Add days to a calendar day
+ * @param date - Calendar day
+ * @param days - Number of days to add (may be negative)
+ * @returns The resulting calendar day
+ */
+export const addDays = (date: CalendarDate, days: number): CalendarDate => {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+};
+
+/**
+ * Get the day of the week of a calendar day
+ * @param date - Calendar day
+ * @returns 0 for Sunday through 6 for Saturday
+ */
+export const getWeekday = (date: CalendarDate): number => {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
 };
 
 /**
  * Get the current time in minutes from midnight
- * @returns Minutes from midnight (0-1439)
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @param now - Instant to evaluate (defaults to the current time)
+ * @returns Minutes from midnight (0-1439), with seconds as a fraction
+ */
+export const getCurrentMinutes = (timeZone?: string, now: Date = new Date()): number => {
+  return getZonedDateParts(now, timeZone).minutes;
+};
+
+/**
+ * Calculate milliseconds from now until a wall-clock time
+ * Works on instants, so days with 23 or 25 hours are handled correctly
+ * @param targetMinutes - Minutes from today's midnight (1440 and above for
+ * tomorrow); times earlier than now are moved to tomorrow
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @param now - Instant to measure from (defaults to the current time)
  */
-export const getCurrentMinutes = (): number => {
-  const now = new Date();
-  return now.getHours() * 60 + now.getMinutes();
+const getMsUntilMinutes = (targetMinutes: number, timeZone?: string, now: Date = new Date()): number => {
+  const today = getZonedDateParts(now, timeZone);
+  const minutes = targetMinutes < today.minutes ? targetMinutes + 1440 : targetMinutes;
+
+  const target = zonedTimeToDate(
+    addDays(today, Math.floor(minutes / 1440)),
+    minutes % 1440,
+    timeZone
+  );
+  return Math.max(target.getTime() - now.getTime(), 0);
 };
 
 /**
  * Check if the current time is within the light mode period
- * Handles midnight crossing correctly
+ * Handles midnight crossing correctly; equal start times leave no dark period
  * @param lightStart - Start time for light mode (e.g., "07:00")
  * @param darkStart - Start time for dark mode (e.g., "22:00")
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @param now - Instant to evaluate (defaults to the current time)
  * @returns true if current time is in light mode period, false otherwise
  */
-export const isLightTime = (lightStart: string, darkStart: string): boolean => {
-  const currentMinutes = getCurrentMinutes();
+export const isLightTime = (
+  lightStart: TimeOfDay,
+  darkStart: TimeOfDay,
+  timeZone?: string,
+  now: Date = new Date()
+): boolean => {
+  const currentMinutes = getCurrentMinutes(timeZone, now);
   const lightStartMinutes = timeToMinutes(lightStart);
   const darkStartMinutes = timeToMinutes(darkStart);
 
@@ -69,20 +302,35 @@ export const isLightTime = (lightStart: string, darkStart: string): boolean => {
  * Get the theme based on current time and configuration
  * @param lightStart - Start time for light mode
  * @param darkStart - Start time for dark mode
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @param now - Instant to evaluate (defaults to the current time)
  * @returns 'light' or 'dark' based on current time
  */
-export const getThemeFromTime = (lightStart: string, darkStart: string): Theme => {
-  return isLightTime(lightStart, darkStart) ? 'light' : 'dark';
+export const getThemeFromTime = (
+  lightStart: TimeOfDay,
+  darkStart: TimeOfDay,
+  timeZone?: string,
+  now: Date = new Date()
+): Theme => {
+  return isLightTime(lightStart, darkStart, timeZone, now) ? 'light' : 'dark';
 };
 
 /**
  * Calculate the next theme boundary time
  * @param lightStart - Start time for light mode
  * @param darkStart - Start time for dark mode
- * @returns Minutes from midnight of the next boundary
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @param now - Instant to evaluate (defaults to the current time)
+ * @returns Minutes from midnight of the next boundary (past 1440 when it's
+ * tomorrow); use getTransitions for instants with their theme
  */
-export const getNextBoundary = (lightStart: string, darkStart: string): number => {
-  const currentMinutes = getCurrentMinutes();
+export const getNextBoundary = (
+  lightStart: TimeOfDay,
+  darkStart: TimeOfDay,
+  timeZone?: string,
+  now: Date = new Date()
+): number => {
+  const currentMinutes = getCurrentMinutes(timeZone, now);
   const lightStartMinutes = timeToMinutes(lightStart);
   const darkStartMinutes = timeToMinutes(darkStart);
 
@@ -112,17 +360,17 @@ export const getNextBoundary = (lightStart: string, darkStart: string): number =
  * Calculate milliseconds until the next theme boundary
  * @param lightStart - Start time for light mode
  * @param darkStart - Start time for dark mode
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @param now - Instant to measure from (defaults to the current time)
  * @returns Milliseconds until next boundary
  */
-export const getMsUntilNextBoundary = (lightStart: string, darkStart: string): number => {
-  const currentMinutes = getCurrentMinutes();
-  const nextBoundary = getNextBoundary(lightStart, darkStart);
-  const minutesUntilBoundary = nextBoundary - currentMinutes;
-
-  // Handle next day case
-  const adjustedMinutes = minutesUntilBoundary < 0 ? minutesUntilBoundary + 1440 : minutesUntilBoundary;
-
-  return adjustedMinutes * 60 * 1000;
+export const getMsUntilNextBoundary = (
+  lightStart: TimeOfDay,
+  darkStart: TimeOfDay,
+  timeZone?: string,
+  now: Date = new Date()
+): number => {
+  return getMsUntilMinutes(getNextBoundary(lightStart, darkStart, timeZone, now), timeZone, now);
 };
 
 /**
@@ -131,7 +379,7 @@ export const getMsUntilNextBoundary = (lightStart: string, darkStart: string): n
  * @param darkStart - Start time for dark mode
  * @returns true if configuration is valid, false otherwise
  */
-export const isValidTimeConfig = (lightStart: string, darkStart: string): boolean => {
+export const isValidTimeConfig = (lightStart: TimeOfDay, darkStart: TimeOfDay): boolean => {
   try {
     timeToMinutes(lightStart);
     timeToMinutes(darkStart);
@@ -140,3 +388,153 @@ export const isValidTimeConfig = (lightStart: string, darkStart: string): boolea
     return false;
   }
 };
+
+/**
+ * Build a schedule from the light/dark shorthand
+ * Equal start times leave no dark period, like isLightTime
+ * @param lightStart - Start time for light mode
+ * @param darkStart - Start time for dark mode
+ * @returns Two-segment schedule, or a light-only one for equal start times
+ */
+export const toSchedule = (
+  lightStart: TimeOfDay,
+  darkStart: TimeOfDay
+): ScheduleSegment<'light' | 'dark'>[] => {
+  if (
+    isValidTimeConfig(lightStart, darkStart) &&
+    timeToMinutes(lightStart) === timeToMinutes(darkStart)
+  ) {
+    return [{ start: lightStart, theme: 'light' }];
+  }
+  return [
+    { start: lightStart, theme: 'light' },
+    { start: darkStart, theme: 'dark' },
+  ];
+};
+
+/**
+ * Sort schedule segments by start time
+ * @param schedule - Schedule segments in any order
+ * @returns New array of segments with their start in minutes, earliest first
+ */
+export const sortSchedule = <T extends string>(
+  schedule: ScheduleSegment<T>[]
+): Array<{ minutes: number; theme: T }> =>
+  schedule
+    .map((segment) => ({ minutes: timeToMinutes(segment.start), theme: segment.theme }))
+    .sort((a, b) => a.minutes - b.minutes);
+
+/**
+ * Get the theme of the schedule segment active at the current time
+ * The last segment of the day continues past midnight until the first one
+ * @param schedule - Schedule segments in any order
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @param now - Instant to evaluate (defaults to the current time)
+ * @returns Theme of the active segment
+ */
+export const getThemeFromSchedule = <T extends string>(
+  schedule: ScheduleSegment<T>[],
+  timeZone?: string,
+  now: Date = new Date()
+): T => {
+  const currentMinutes = getCurrentMinutes(timeZone, now);
+  const sorted = sortSchedule(schedule);
+
+  let active = sorted[sorted.length - 1];
+  for (const segment of sorted) {
+    if (segment.minutes <= currentMinutes) {
+      active = segment;
+    }
+  }
+
+  return active.theme;
+};
+
+/**
+ * Calculate the next schedule boundary time
+ * @param schedule - Schedule segments in any order
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @param now - Instant to evaluate (defaults to the current time)
+ * @returns Minutes from midnight of the next segment start
+ * (above 1439 when the next boundary is tomorrow)
+ */
+export const getNextScheduleBoundary = <T extends string>(
+  schedule: ScheduleSegment<T>[],
+  timeZone?: string,
+  now: Date = new Date()
+): number => {
+  const currentMinutes = getCurrentMinutes(timeZone, now);
+  const sorted = sortSchedule(schedule);
+
+  const next = sorted.find((segment) => segment.minutes > currentMinutes);
+  return next ? next.minutes : sorted[0].minutes + 1440;
+};
+
+/**
+ * Calculate milliseconds until the next schedule boundary
+ * @param schedule - Schedule segments in any order
+ * @param timeZone - IANA time zone name (defaults to the device's time zone)
+ * @param now - Instant to measure from (defaults to the current time)
+ * @returns Milliseconds until next boundary
+ */
+export const getMsUntilNextScheduleBoundary = <T extends string>(
+  schedule: ScheduleSegment<T>[],
+  timeZone?: string,
+  now: Date = new Date()
+): number => {
+  return getMsUntilMinutes(getNextScheduleBoundary(schedule, timeZone, now), timeZone, now);
+};
+
+/**
+ * Get the distinct themes used by a schedule, in order of first appearance
+ * @param schedule - Schedule segments
+ * @returns Theme names
+ */
+export const getScheduleThemes = <T extends string>(schedule: ScheduleSegment<T>[]): T[] => {
+  return schedule.reduce<T[]>(
+    (themes, segment) => (themes.includes(segment.theme) ? themes : [...themes, segment.theme]),
+    []
+  );
+};
+
+/**
+ * Check whether a value can be used as a theme name
+ * 'auto', 'system' and 'ambient' are reserved for the automatic modes
+ * @param theme - Value to check
+ * @returns true if the value is a non-empty string other than a reserved mode
+ */
+export const isValidThemeName = (theme: unknown): theme is string => {
+  return (
+    typeof theme === 'string' &&
+    theme !== '' &&
+    theme !== 'auto' &&
+    theme !== 'system' &&
+    theme !== 'ambient'
+  );
+};
+
+/**
+ * Validate a schedule
+ * @param schedule - Schedule segments
+ * @returns true if the schedule is non-empty, every start time is valid,
+ * no two segments start at the same time and every theme is named
+ */
+export const isValidSchedule = <T extends string>(schedule: ScheduleSegment<T>[]): boolean => {
+  if (
+    !Array.isArray(schedule) ||
+    schedule.length === 0 ||
+    !schedule.every((segment) => typeof segment === 'object' && segment !== null)
+  ) {
+    return false;
+  }
+
+  try {
+    const starts = schedule.map((segment) => timeToMinutes(segment.start));
+    return (
+      new Set(starts).size === starts.length &&
+      schedule.every((segment) => isValidThemeName(segment.theme))
+    );
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,129 @@
+/**
+ * Design token utilities for react-auto-time-theme
+ * Turns per-theme token maps into CSS custom properties
+ */
+
+import { ThemeConfig, ThemeTokens, ThemeTokenMap } from './types';
+import { TOKEN_STYLE_ID } from './constants';
+
+/**
+ * Convert a token key to kebab case (textMuted -> text-muted)
+ */
+const toKebabCase = (key: string): string => {
+  return key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+};
+
+/**
+ * Get the CSS custom properties for a set of tokens
+ * Nested tokens are joined with dashes
+ * @param tokens - Tokens of one theme
+ * @param prefix - Prefix for the property names
+ * @returns Values by custom property name (e.g. { '--background': '#fff' })
+ */
+export const getTokenVariables = (
+  tokens: ThemeTokens | undefined,
+  prefix = ''
+): Record<string, string> => {
+  const variables: Record<string, string> = {};
+
+  const collect = (group: ThemeTokens, path: string[]) => {
+    for (const [key, value] of Object.entries(group)) {
+      const keyPath = [...path, toKebabCase(key)];
+      if (typeof value === 'object' && value !== null) {
+        collect(value, keyPath);
+      } else if (typeof value === 'string' || typeof value === 'number') {
+        variables[`--${keyPath.join('-')}`] = String(value);
+      }
+    }
+  };
+
+  if (tokens) {
+    collect(tokens, prefix ? [prefix] : []);
+  }
+  return variables;
+};
+
+/**
+ * Get the names of all custom properties used by any theme
+ */
+const getAllTokenNames = (tokens: ThemeTokenMap<string>, prefix = ''): Set<string> => {
+  const names = new Set<string>();
+  for (const themeTokens of Object.values(tokens)) {
+    Object.keys(getTokenVariables(themeTokens, prefix)).forEach((name) => names.add(name));
+  }
+  return names;
+};
+
+/**
+ * Build a stylesheet with a rule per theme, keyed on the data-theme attribute
+ * Render it in <head> to have tokens available before the provider hydrates
+ * @param config - Theme configuration
+ * @returns CSS text, empty when no tokens are configured
+ */
+export const getTokenStylesheet = (
+  config: Pick<ThemeConfig, 'tokens' | 'tokenPrefix' | 'applyTo'>
+): string => {
+  const selector = config.applyTo === 'body' ? 'body' : ':root';
+
+  return Object.entries(config.tokens ?? {})
+    .map(([theme, tokens]) => {
+      const declarations = Object.entries(getTokenVariables(tokens, config.tokenPrefix))
+        .map(([name, value]) => `${name}:${value}`)
+        .join(';');
+      return `${selector}[data-theme="${theme.replace(/["\\]/g, '\\$&')}"]{${declarations}}`;
+    })
+    .join('')
+    // Keep the stylesheet safe to embed in server-rendered HTML
+    .replace(/</g, '\\3c ');
+};
+
+/**
+ * Write the tokens of a theme as custom properties on an element
+ * Properties of other themes that the theme doesn't define are removed
+ * @param target - Element to write to
+ * @param theme - Active theme
+ * @param config - Theme configuration
+ */
+export const applyTokensToElement = (
+  target: HTMLElement,
+  theme: string,
+  config: Pick<ThemeConfig, 'tokens' | 'tokenPrefix'>
+): void => {
+  if (!config.tokens) {
+    return;
+  }
+
+  const variables = getTokenVariables(config.tokens[theme], config.tokenPrefix);
+  getAllTokenNames(config.tokens, config.tokenPrefix).forEach((name) => {
+    if (name in variables) {
+      target.style.setProperty(name, variables[name]);
+    } else {
+      target.style.removeProperty(name);
+    }
+  });
+};
+
+/**
+ * Add or update the token stylesheet in the document head
+ * @param config - Theme configuration
+ * @returns Function that removes the stylesheet
+ */
+export const injectTokenStylesheet = (
+  config: Pick<ThemeConfig, 'tokens' | 'tokenPrefix' | 'applyTo'>
+): (() => void) => {
+  if (typeof document === 'undefined' || !document.head) {
+    return () => {};
+  }
+
+  // Reuse the stylesheet rendered by ThemeScript, leaving its removal to React
+  const existing = document.getElementById(TOKEN_STYLE_ID);
+  const style = existing ?? document.createElement('style');
+  style.textContent = getTokenStylesheet(config);
+  if (existing) {
+    return () => {};
+  }
+
+  style.id = TOKEN_STYLE_ID;
+  document.head.appendChild(style);
+  return () => style.remove();
+};
@@ -0,0 +1,136 @@
+/**
+ * Theme switch animations for react-auto-time-theme
+ * Keeps CSS transitions from animating every element on its own when the
+ * theme changes, optionally crossfading with the View Transitions API
+ */
+
+import { TransitionConfig, TransitionStrategy } from './types';
+import {
+  REDUCED_MOTION_QUERY,
+  DEFAULT_TRANSITION_DURATION,
+  DEFAULT_TRANSITION_EASING,
+} from './constants';
+
+/**
+ * Check if the user prefers reduced motion
+ * @returns true if prefers-reduced-motion is set to reduce
+ */
+export const prefersReducedMotion = (): boolean => {
+  return (
+    typeof window !== 'undefined' &&
+    typeof window.matchMedia === 'function' &&
+    window.matchMedia(REDUCED_MOTION_QUERY).matches
+  );
+};
+
+/**
+ * Normalize a transition option into a config with defaults applied
+ */
+const resolveTransition = (
+  transition: TransitionStrategy | TransitionConfig | undefined
+): TransitionConfig & { duration: number; easing: string } => {
+  const config = typeof transition === 'string' ? { strategy: transition } : transition;
+  return {
+    strategy: config?.strategy ?? 'none',
+    duration: config?.duration ?? DEFAULT_TRANSITION_DURATION,
+    easing: config?.easing ?? DEFAULT_TRANSITION_EASING,
+    nonce: config?.nonce,
+  };
+};
+
+const TRANSITION_STRATEGIES: TransitionStrategy[] = ['none', 'disable-transitions', 'view-transition'];
+
+/**
+ * Validate a transition option
+ * @param transition - Strategy name or transition config
+ * @returns true if it's a known strategy, or a config with a known strategy,
+ * a non-negative duration and string easing and nonce (if set)
+ */
+export const isValidTransition = (transition: TransitionStrategy | TransitionConfig): boolean => {
+  if (typeof transition === 'string') {
+    return TRANSITION_STRATEGIES.includes(transition);
+  }
+  if (typeof transition !== 'object' || transition === null) {
+    return false;
+  }
+
+  const { strategy, duration, easing, nonce } = transition;
+  return (
+    TRANSITION_STRATEGIES.includes(strategy) &&
+    (duration === undefined || (Number.isFinite(duration) && duration >= 0)) &&
+    (easing === undefined || typeof easing === 'string') &&
+    (nonce === undefined || typeof nonce === 'string')
+  );
+};
+
+/**
+ * Add a temporary style element to the document head
+ * @returns Function that removes the element
+ */
+const injectStyle = (css: string, nonce?: string): (() => void) => {
+  const style = document.createElement('style');
+  if (nonce) {
+    style.setAttribute('nonce', nonce);
+  }
+  style.appendChild(document.createTextNode(css));
+  document.head.appendChild(style);
+  return () => style.remove();
+};
+
+/**
+ * Apply a change with all CSS transitions suspended
+ * @param apply - Function that changes the theme
+ * @param nonce - Nonce for the temporary style element
+ */
+const applyWithoutTransitions = (apply: () => void, nonce?: string): void => {
+  const removeStyle = injectStyle(
+    '*,*::before,*::after{-webkit-transition:none!important;transition:none!important}',
+    nonce
+  );
+  apply();
+
+  // Force a style recalculation so the new theme is applied while
+  // transitions are still off, then turn them back on
+  window.getComputedStyle(document.body).getPropertyValue('opacity');
+  setTimeout(removeStyle, 1);
+};
+
+/**
+ * Apply a theme change using a transition strategy
+ * Falls back to suspending transitions where the View Transitions API is
+ * unavailable or the user prefers reduced motion
+ * @param apply - Function that changes the theme in the DOM
+ * @param transition - Strategy name or transition config
+ */
+export const runThemeTransition = (
+  apply: () => void,
+  transition: TransitionStrategy | TransitionConfig | undefined
+): void => {
+  const { strategy, duration, easing, nonce } = resolveTransition(transition);
+
+  if (strategy === 'none' || typeof document === 'undefined' || !document.head) {
+    apply();
+    return;
+  }
+
+  if (
+    strategy === 'view-transition' &&
+    typeof document.startViewTransition === 'function' &&
+    !prefersReducedMotion()
+  ) {
+    const removeStyle = injectStyle(
+      '::view-transition-old(root),::view-transition-new(root)' +
+        `{animation-duration:${duration}ms;animation-timing-function:${easing}}`,
+      nonce
+    );
+    try {
+      document.startViewTransition(apply).finished.then(removeStyle, removeStyle);
+    } catch {
+      removeStyle();
+      apply();
+    }
+    return;
+  }
+
+  applyWithoutTransitions(apply, nonce);
+};
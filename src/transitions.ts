@@ -0,0 +1,111 @@
+/**
+ * Schedule queries for react-auto-time-theme
+ * Answers which theme the schedule shows at a given moment and when it
+ * switches, as concrete instants rather than minutes from midnight
+ */
+
+import { ThemeConfig, Theme } from './types';
+import { resolveConfig } from './config';
+import { getCurrentTime, getNextScheduledBoundary, getScheduledTheme } from './schedule';
+
+/**
+ * How far ahead getNextTransition looks: a week covers every weekday
+ * schedule, plus a day for schedules starting at midnight
+ */
+const NEXT_TRANSITION_HORIZON = 8 * 24 * 60 * 60 * 1000;
+
+/**
+ * A switch of the scheduled theme
+ */
+export interface ThemeTransition<T extends string = Theme> {
+  /** Instant of the switch */
+  at: Date;
+  /** Theme shown from then on */
+  theme: T;
+  /** Theme shown until then */
+  previousTheme: T;
+}
+
+/**
+ * Get the theme the schedule shows at a moment
+ * Takes weekday schedules, date exceptions, solar mode and the time zone
+ * into account; the OS preference, light sensor and manual modes are not
+ * @param date - Instant to evaluate
+ * @param config - Theme configuration (same as passed to AutoThemeProvider)
+ * @returns Scheduled theme
+ *
+ * @example
+ * getThemeAt(new Date('2024-06-01T23:00:00'), { darkStart: '22:00' }); // 'dark'
+ */
+export const getThemeAt = <T extends string = Theme>(
+  date: Date,
+  config: Partial<ThemeConfig<T>> = {}
+): T => {
+  return getScheduledTheme(resolveConfig(config as Partial<ThemeConfig>) as ThemeConfig<T>, date);
+};
+
+/**
+ * List the switches of a resolved configuration's schedule
+ */
+const listTransitions = <T extends string>(
+  config: ThemeConfig<T>,
+  from: Date,
+  to: Date,
+  limit: number = Infinity
+): ThemeTransition<T>[] => {
+  const transitions: ThemeTransition<T>[] = [];
+  let theme = getScheduledTheme(config, from);
+  let boundary = getNextScheduledBoundary(config, from);
+
+  while (boundary.getTime() <= to.getTime() && transitions.length < limit) {
+    const nextTheme = getScheduledTheme(config, boundary);
+    // Boundaries between segments of the same theme aren't switches
+    if (nextTheme !== theme) {
+      transitions.push({ at: boundary, theme: nextTheme, previousTheme: theme });
+      theme = nextTheme;
+    }
+    const next = getNextScheduledBoundary(config, boundary);
+    boundary = next.getTime() > boundary.getTime() ? next : new Date(boundary.getTime() + 1);
+  }
+  return transitions;
+};
+
+/**
+ * Get the switches of the scheduled theme within a time range
+ * @param from - Start of the range (exclusive)
+ * @param to - End of the range (inclusive)
+ * @param config - Theme configuration (same as passed to AutoThemeProvider)
+ * @returns Switches in chronological order
+ *
+ * @example
+ * getTransitions(new Date('2024-06-01T00:00:00'), new Date('2024-06-02T00:00:00'), {});
+ * // [{ at: 2024-06-01T07:00, theme: 'light', previousTheme: 'dark' },
+ * //  { at: 2024-06-01T22:00, theme: 'dark', previousTheme: 'light' }]
+ */
+export const getTransitions = <T extends string = Theme>(
+  from: Date,
+  to: Date,
+  config: Partial<ThemeConfig<T>> = {}
+): ThemeTransition<T>[] => {
+  return listTransitions(resolveConfig(config as Partial<ThemeConfig>) as ThemeConfig<T>, from, to);
+};
+
+/**
+ * Get the next switch of a resolved configuration's schedule
+ * @param config - Theme configuration with defaults applied
+ * @param now - Instant to search from (defaults to the configured clock's time)
+ * @returns Next switch within eight days, or null if the theme doesn't
+ * change (e.g., a single-theme schedule or polar day)
+ */
+export const getNextTransition = <T extends string>(
+  config: ThemeConfig<T>,
+  now: Date = getCurrentTime(config)
+): ThemeTransition<T> | null => {
+  const [next] = listTransitions(
+    config,
+    now,
+    new Date(now.getTime() + NEXT_TRANSITION_HORIZON),
+    1
+  );
+  return next ?? null;
+};
@@ -0,0 +1,148 @@
+/**
+ * Twilight blending for react-auto-time-theme
+ * Computes how far the palette has moved from light to dark during the
+ * window around each schedule boundary
+ */
+
+import { ThemeConfig, TwilightConfig, Mode, DefaultTheme } from './types';
+import {
+  getCurrentTime,
+  getScheduledTheme,
+  getNextScheduledBoundary,
+  calculateTheme,
+  followsSystemTheme,
+  isAutomaticMode,
+} from './schedule';
+import { DEFAULT_TWILIGHT_INTERVAL } from './constants';
+
+/**
+ * Get the blend level of a theme
+ * @param theme - Theme name
+ * @returns 1 for 'dark', 0 for any other theme
+ */
+export const getThemeLevel = (theme: string): number => {
+  return theme === 'dark' ? 1 : 0;
+};
+
+/**
+ * Find the boundary whose twilight window contains an instant
+ * @param config - Theme configuration
+ * @param twilight - Twilight configuration
+ * @param time - Instant to evaluate (ms)
+ * @returns The boundary (ms), or null outside all windows
+ */
+export const findTwilightBoundary = <T extends string>(
+  config: ThemeConfig<T>,
+  twilight: TwilightConfig,
+  time: number
+): number | null => {
+  const halfWindow = (twilight.duration * 60 * 1000) / 2;
+
+  const next = getNextScheduledBoundary(config, new Date(time)).getTime();
+  if (next - time <= halfWindow) {
+    return next;
+  }
+
+  // The first boundary after the start of a window ending now is the previous one
+  const previous = getNextScheduledBoundary(config, new Date(time - halfWindow)).getTime();
+  return previous <= time ? previous : null;
+};
+
+/**
+ * Get the scheduled blend progress at a moment
+ * Outside the twilight windows this is the level of the scheduled theme;
+ * inside one it moves linearly from the level of the theme before the
+ * boundary to the level of the theme after it
+ * @param config - Theme configuration
+ * @param now - Instant to evaluate (defaults to the configured clock's time)
+ * @returns Progress from 0 (fully light) to 1 (fully dark)
+ */
+export const getTwilightProgress = <T extends string>(
+  config: ThemeConfig<T>,
+  now: Date = getCurrentTime(config)
+): number => {
+  const { twilight } = config;
+  const time = now.getTime();
+  const boundary = twilight ? findTwilightBoundary(config, twilight, time) : null;
+  if (!twilight || boundary === null) {
+    return getThemeLevel(getScheduledTheme(config, now));
+  }
+
+  const windowLength = twilight.duration * 60 * 1000;
+  const from = getThemeLevel(getScheduledTheme(config, new Date(boundary - 1)));
+  const to = getThemeLevel(getScheduledTheme(config, new Date(boundary)));
+  const position = (time - (boundary - windowLength / 2)) / windowLength;
+  return from + (to - from) * Math.min(Math.max(position, 0), 1);
+};
+
+/**
+ * Calculate the blend progress for a mode
+ * Only modes following the schedule blend; other modes use the level of
+ * their theme
+ * @param mode - Current mode
+ * @param config - Theme configuration
+ * @param systemTheme - OS color scheme preference, if known
+ * @param ambientTheme - Theme indicated by the light sensor, if known
+ * @param now - Instant to evaluate (defaults to the configured clock's time)
+ * @returns Progress from 0 (fully light) to 1 (fully dark)
+ */
+export const calculateProgress = <T extends string>(
+  mode: Mode<T>,
+  config: ThemeConfig<T>,
+  systemTheme: DefaultTheme | null = null,
+  ambientTheme: DefaultTheme | null = null,
+  now: Date = getCurrentTime(config)
+): number => {
+  if (
+    !isAutomaticMode(mode) ||
+    (followsSystemTheme(mode, config) && systemTheme) ||
+    (mode === 'ambient' && ambientTheme)
+  ) {
+    return getThemeLevel(calculateTheme(mode, config, systemTheme, ambientTheme));
+  }
+  return getTwilightProgress(config, now);
+};
+
+/**
+ * Get when the blend progress next changes
+ * @param config - Theme configuration
+ * @param now - Instant to measure from (defaults to the configured clock's time)
+ * @returns Timestamp (ms) of the next update during a window or of the start
+ * of the next window, or null without a twilight window
+ */
+export const getNextTwilightUpdate = <T extends string>(
+  config: ThemeConfig<T>,
+  now: Date = getCurrentTime(config)
+): number | null => {
+  const { twilight } = config;
+  if (!twilight) {
+    return null;
+  }
+
+  const time = now.getTime();
+  const halfWindow = (twilight.duration * 60 * 1000) / 2;
+  const boundary = findTwilightBoundary(config, twilight, time);
+  if (boundary === null) {
+    return getNextScheduledBoundary(config, now).getTime() - halfWindow;
+  }
+
+  const interval = (twilight.interval ?? DEFAULT_TWILIGHT_INTERVAL) * 1000;
+  return Math.min(time + interval, boundary + halfWindow);
+};
+
+/**
+ * Validate twilight options
+ * @param twilight - Twilight configuration
+ * @returns true if the duration is positive and at most 12 hours, the
+ * interval (if set) is positive and the property (if set) is a custom property
+ */
+export const isValidTwilight = (twilight: TwilightConfig): boolean => {
+  const { duration, interval, property } = twilight;
+  return (
+    Number.isFinite(duration) &&
+    duration > 0 &&
+    duration <= 720 &&
+    (interval === undefined || (Number.isFinite(interval) && interval > 0)) &&
+    (property === undefined || (typeof property === 'string' && property.startsWith('--')))
+  );
+};
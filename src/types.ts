@@ -2,84 +2,688 @@
  * Theme types for react-auto-time-theme
  */
 
+/**
+ * Built-in theme values
+ */
+export type DefaultTheme = 'light' | 'dark';
+
 /**
  * Available theme values
+ * Any theme name is allowed; 'light' and 'dark' are the built-in defaults
  */
-export type Theme = 'light' | 'dark';
+export type Theme = DefaultTheme | (string & {});
 
 /**
  * Available mode values
  * - 'auto': Theme switches automatically based on time
- * - 'light': Force light theme
- * - 'dark': Force dark theme
+ * - 'system': Theme follows the OS color scheme (prefers-color-scheme)
+ * - 'ambient': Theme follows the room brightness from a light sensor
+ * - any theme name (e.g., 'light' or 'dark'): Force that theme
+ */
+export type Mode<T extends string = Theme> = 'auto' | 'system' | 'ambient' | T;
+
+/**
+ * What 'auto' mode follows first
+ * - 'schedule': Always use the time schedule
+ * - 'system': Use the OS color scheme if the user has one set,
+ *   otherwise the time schedule
+ */
+export type AutoPrecedence = 'schedule' | 'system';
+
+/**
+ * A time of day
+ * - 24-hour strings, optionally with seconds: "19:30", "7:30", "19:30:15"
+ * - 12-hour strings: "7:30 PM", "7 pm", "12:00 a.m."
+ * - objects: { hour: 19, minute: 30, second: 15 } (24-hour)
+ */
+export type TimeOfDay = string | { hour: number; minute?: number; second?: number };
+
+/**
+ * A segment of the daily schedule
+ * The theme is active from `start` until the start of the next segment
+ */
+export interface ScheduleSegment<T extends string = Theme> {
+  /**
+   * Start time of the segment (e.g., "19:00")
+   */
+  start: TimeOfDay;
+
+  /**
+   * Theme active during the segment
+   */
+  theme: T;
+}
+
+/**
+ * Days of the week
+ */
+export type Weekday =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+/**
+ * Daily light and dark start times chosen by the user (see setSchedule)
+ */
+export interface UserSchedule {
+  /** Start time for light mode (e.g., "07:30") */
+  lightStart: TimeOfDay;
+  /** Start time for dark mode (e.g., "21:00") */
+  darkStart: TimeOfDay;
+}
+
+/**
+ * Schedule for a single day
+ * Use `theme` for a fixed theme all day, `schedule` for custom segments,
+ * or `lightStart`/`darkStart` (missing values fall back to the main config)
+ */
+export interface DaySchedule<T extends string = Theme> {
+  /**
+   * Start time for light mode on this day (e.g., "09:00")
+   */
+  lightStart?: TimeOfDay;
+
+  /**
+   * Start time for dark mode on this day (e.g., "18:00")
+   */
+  darkStart?: TimeOfDay;
+
+  /**
+   * Schedule segments for this day
+   */
+  schedule?: ScheduleSegment<T>[];
+
+  /**
+   * Theme to use all day
+   */
+  theme?: T;
+}
+
+/**
+ * Schedule for a specific date or an inclusive range of dates
+ */
+export interface ScheduleException<T extends string = Theme> extends DaySchedule<T> {
+  /**
+   * Date in YYYY-MM-DD format (e.g., "2024-12-25")
+   */
+  date: string;
+
+  /**
+   * Last date of the range in YYYY-MM-DD format (inclusive)
+   * Omit for a single date
+   */
+  until?: string;
+}
+
+/**
+ * Solar schedule options
+ * Light mode runs from sunrise to sunset at the given coordinates
+ */
+export interface SolarConfig {
+  /**
+   * Latitude in degrees (north positive, -90 to 90)
+   */
+  latitude: number;
+
+  /**
+   * Longitude in degrees (east positive, -180 to 180)
+   */
+  longitude: number;
+
+  /**
+   * Minutes to shift the start of light mode relative to sunrise
+   * (e.g., 30 switches to light 30 minutes after sunrise)
+   * @default 0
+   */
+  sunriseOffset?: number;
+
+  /**
+   * Minutes to shift the start of dark mode relative to sunset
+   * (e.g., 30 switches to dark 30 minutes after sunset)
+   * @default 0
+   */
+  sunsetOffset?: number;
+}
+
+/**
+ * Gradual blend between light and dark around schedule boundaries
+ */
+export interface TwilightConfig {
+  /**
+   * Length of the blend window centered on each boundary (in minutes)
+   */
+  duration: number;
+
+  /**
+   * CSS custom property the progress is written to
+   * @default "--theme-progress"
+   */
+  property?: string;
+
+  /**
+   * How often the progress is updated during the window (in seconds)
+   * @default 30
+   */
+  interval?: number;
+}
+
+/**
+ * Source of ambient light readings
+ * Implement this to feed 'ambient' mode from a custom sensor, or a fake
+ * one in tests
+ */
+export interface AmbientLightSource {
+  /**
+   * Start reading the light level
+   * @param listener - Called with each illuminance (in lux), or with null
+   * when no sensor is available or it stopped working
+   * @returns Function that stops reading
+   */
+  subscribe(listener: (lux: number | null) => void): () => void;
+}
+
+/**
+ * Ambient light mode options
+ * Between the two thresholds the current theme is kept (hysteresis)
+ */
+export interface AmbientConfig {
+  /**
+   * Switch to dark below this illuminance (in lux)
+   * @default 50
+   */
+  darkBelow?: number;
+
+  /**
+   * Switch to light above this illuminance (in lux)
+   * @default 150
+   */
+  lightAbove?: number;
+
+  /**
+   * How long readings have to indicate the other theme before switching
+   * (in seconds)
+   * @default 10
+   */
+  dwell?: number;
+
+  /**
+   * Where readings come from
+   * Keep the same instance between renders; a new one reconnects
+   * @default the AmbientLightSensor API
+   */
+  sensor?: AmbientLightSource;
+
+  /**
+   * Readings per second requested from the AmbientLightSensor API
+   * @default 1
+   */
+  frequency?: number;
+}
+
+/**
+ * Storage backend for the selected mode
+ * Methods may be synchronous or return promises
+ */
+export interface StorageAdapter {
+  /**
+   * Identifies built-in adapters ('localStorage', 'sessionStorage', 'cookie',
+   * 'memory'), so the inline theme script can read the same storage
+   */
+  readonly type?: string;
+
+  /**
+   * Read a value, or null if nothing is stored
+   */
+  get(key: string): string | null | Promise<string | null>;
+
+  /**
+   * Write a value
+   */
+  set(key: string, value: string): void | Promise<void>;
+
+  /**
+   * Remove a value
+   */
+  remove(key: string): void | Promise<void>;
+}
+
+/**
+ * Upgrade of stored values from one format version to the next
+ * Version 0 is the legacy format: the mode as a bare string ("dark", or
+ * "dark@<expiry timestamp>" for a time-limited override), and any JSON
+ * without a version
+ */
+export interface StorageMigration {
+  /** Format version the migration upgrades from */
+  from: number;
+
+  /**
+   * Upgrade a stored value to the next version
+   * @param value - Parsed JSON, or the raw string if the value isn't a JSON object
+   * @param key - Storage key the value was read from
+   * @returns The upgraded value, null to discard it, or undefined to leave
+   * it to the next migration of the same version
+   */
+  migrate: (value: unknown, key: string) => unknown;
+}
+
+/**
+ * How long a manual mode selection lasts before reverting to 'auto'
+ * - 'next-boundary': until the next scheduled theme switch
+ * - { minutes }: for a number of minutes
+ * - { until }: until a date (or a timestamp in ms)
+ */
+export type OverrideDuration =
+  | 'next-boundary'
+  | { minutes: number }
+  | { until: Date | number };
+
+/**
+ * Elements an applier writes to: a CSS selector (all matches) or an element
+ */
+export type ApplierTarget = string | Element;
+
+/**
+ * Sets an attribute to the theme name, or to a mapped value
+ */
+export interface AttributeApplier<T extends string = Theme> {
+  type: 'attribute';
+  /** Attribute name, e.g. 'data-theme' or 'data-bs-theme' */
+  name: string;
+  /** Target elements (defaults to config.applyTo) */
+  target?: ApplierTarget;
+  /** Attribute value per theme (defaults to the theme name) */
+  values?: Partial<Record<T, string>>;
+}
+
+/**
+ * Adds a class for the theme and removes the classes of the other themes
+ */
+export interface ClassApplier<T extends string = Theme> {
+  type: 'class';
+  /** Target elements (defaults to config.applyTo) */
+  target?: ApplierTarget;
+  /**
+   * Class per theme (defaults to the theme name); themes mapped to an
+   * empty string get no class, e.g. { light: '', dark: 'dark' } for Tailwind
+   */
+  classNames?: Partial<Record<T, string>>;
+}
+
+/**
+ * Sets a CSS property on the target's inline style, e.g. color-scheme
+ */
+export interface StyleApplier<T extends string = Theme> {
+  type: 'style';
+  /** CSS property name, e.g. 'color-scheme' */
+  property: string;
+  /** Target elements (defaults to config.applyTo) */
+  target?: ApplierTarget;
+  /**
+   * Value per theme (defaults to the theme name); the property is removed
+   * for themes without a value
+   */
+  values?: Partial<Record<T, string>>;
+}
+
+/**
+ * Sets the content of a <meta> tag in the document head, creating it if needed
+ */
+export interface MetaApplier<T extends string = Theme> {
+  type: 'meta';
+  /** Meta name, e.g. 'theme-color' */
+  name: string;
+  /** Content per theme; left unchanged for themes without one */
+  values: Partial<Record<T, string>>;
+}
+
+/**
+ * Calls a function with the theme
+ * Not run by ThemeScript, as functions can't be serialized
+ */
+export interface CallbackApplier<T extends string = Theme> {
+  type: 'callback';
+  apply: (theme: T) => void;
+}
+
+/**
+ * Writes the active theme to the document
+ */
+export type ThemeApplier<T extends string = Theme> =
+  | AttributeApplier<T>
+  | ClassApplier<T>
+  | StyleApplier<T>
+  | MetaApplier<T>
+  | CallbackApplier<T>;
+
+/**
+ * Design tokens of a theme, e.g. { background: '#fff', shadow: { card: '...' } }
+ * Written as CSS custom properties named after their path in kebab case
+ * (--background, --shadow-card)
+ */
+export interface ThemeTokens {
+  [key: string]: string | number | ThemeTokens;
+}
+
+/**
+ * Design tokens per theme name
+ */
+export type ThemeTokenMap<T extends string = Theme> = Partial<Record<T, ThemeTokens>>;
+
+/**
+ * How tokens are written to the document
+ * - 'inline': as custom properties on the target element, for the active theme
+ * - 'stylesheet': as a <style> block with a rule for every theme, keyed on data-theme
+ */
+export type TokenStrategy = 'inline' | 'stylesheet';
+
+/**
+ * How theme switches are animated
+ * - 'none': swap immediately, letting CSS transitions run as they are
+ * - 'disable-transitions': suspend all CSS transitions during the swap
+ * - 'view-transition': crossfade with the View Transitions API, falling back
+ *   to 'disable-transitions' where it isn't supported
  */
-export type Mode = 'auto' | 'light' | 'dark';
+export type TransitionStrategy = 'none' | 'disable-transitions' | 'view-transition';
+
+/**
+ * Theme switch animation options
+ */
+export interface TransitionConfig {
+  /**
+   * How theme switches are animated
+   */
+  strategy: TransitionStrategy;
+
+  /**
+   * Crossfade duration in milliseconds
+   * @default 300
+   */
+  duration?: number;
+
+  /**
+   * Crossfade easing (any CSS timing function)
+   * @default "ease"
+   */
+  easing?: string;
+
+  /**
+   * Nonce for the temporary style element, for Content Security Policies
+   */
+  nonce?: string;
+}
+
+/**
+ * Attributes of the cookie written by the cookie storage adapter
+ */
+export interface CookieOptions {
+  /** @default "/" */
+  path?: string;
+  /** Lifetime in seconds @default 31536000 (1 year) */
+  maxAge?: number;
+  /** @default "Lax" */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  domain?: string;
+  /** @default false */
+  secure?: boolean;
+}
 
 /**
  * Configuration options for AutoThemeProvider
  */
-export interface ThemeConfig {
+export interface ThemeConfig<T extends string = Theme> {
   /**
-   * Start time for light mode (e.g., "07:00")
+   * Start time for light mode (e.g., "07:00" or "7:00 AM")
    * @default "07:00"
    */
-  lightStart: string;
+  lightStart: TimeOfDay;
 
   /**
-   * Start time for dark mode (e.g., "22:00")
+   * Start time for dark mode (e.g., "22:00" or "10:00 PM")
+   * Equal to lightStart, there is no dark period
    * @default "22:00"
    */
-  darkStart: string;
+  darkStart: TimeOfDay;
+
+  /**
+   * Solar schedule computed from coordinates
+   * When set, sunrise and sunset replace lightStart and darkStart;
+   * days and exceptions still take precedence on their days
+   */
+  solar?: SolarConfig;
+
+  /**
+   * Daily schedule as a list of segments, in any order
+   * When set, replaces lightStart and darkStart
+   * (e.g., light → dim → dark → sepia)
+   */
+  schedule?: ScheduleSegment<T>[];
+
+  /**
+   * Additional theme names available for manual selection
+   * Themes used in the schedule are always available
+   */
+  themes?: T[];
+
+  /**
+   * Per-day schedules, by weekday name or by 'weekdays' / 'weekend' group
+   * A weekday name takes precedence over its group
+   */
+  days?: Partial<Record<Weekday | 'weekdays' | 'weekend', DaySchedule<T>>>;
+
+  /**
+   * Date-specific schedules (e.g., holidays), taking precedence over `days`
+   * When several exceptions cover a date, the last one wins
+   */
+  exceptions?: ScheduleException<T>[];
+
+  /**
+   * Blend window around each boundary, during which `progress` moves
+   * gradually between light (0) and dark (1) while `theme` still switches
+   * at the boundary
+   */
+  twilight?: TwilightConfig;
+
+  /**
+   * Light sensor and thresholds used by 'ambient' mode
+   * Without a sensor reading, 'ambient' mode follows the schedule
+   */
+  ambient?: AmbientConfig;
+
+  /**
+   * IANA time zone the schedule follows (e.g., "America/New_York")
+   * Defaults to the device's time zone
+   */
+  timeZone?: string;
+
+  /**
+   * Clock used for all time calculations, including override expiry
+   * Inject a fixed or simulated clock to test scheduling deterministically
+   * (see createMockClock in the /testing entry)
+   * @default () => new Date()
+   */
+  now?: () => Date;
+
+  /**
+   * What 'auto' mode follows first
+   * @default "schedule"
+   */
+  autoPrecedence?: AutoPrecedence;
 
   /**
    * Default mode when no stored preference exists
    * @default "auto"
    */
-  defaultMode: Mode;
+  defaultMode: Mode<T>;
 
   /**
-   * LocalStorage key for storing user preference
+   * Storage key for storing user preference
    * @default "auto-theme-mode"
    */
   storageKey: string;
 
   /**
-   * DOM element to apply the data-theme attribute to
+   * Where the user preference is stored
+   * Asynchronous adapters are supported: the provider renders with the
+   * default mode and switches once the stored mode has loaded
+   * @default localStorage adapter
+   */
+  storage?: StorageAdapter;
+
+  /**
+   * Storage keys used before storageKey was renamed, most recent first
+   * When nothing is stored under storageKey, the value stored under the
+   * first of them is migrated to storageKey and removed
+   */
+  previousStorageKeys?: string[];
+
+  /**
+   * Migrations for stored values the built-in ones don't understand, such
+   * as an app's own format under a previous storage key
+   * They run before the built-in migration of the same version
+   */
+  storageMigrations?: StorageMigration[];
+
+  /**
+   * How long manual mode selections last when no duration is passed
+   * to the setter
+   * @default undefined (until changed)
+   */
+  overrideDuration?: OverrideDuration;
+
+  /**
+   * Keep the mode in sync across tabs and windows of the same origin
+   * @default true
+   */
+  syncTabs?: boolean;
+
+  /**
+   * Default target element of appliers and tokens
    * @default "html"
    */
   applyTo: 'html' | 'body';
 
   /**
-   * Callback invoked when the theme changes
-   * @param theme - The current theme ('light' or 'dark')
-   * @param mode - The current mode ('auto', 'light', or 'dark')
+   * How the theme is written to the document
+   * @default [{ type: 'attribute', name: 'data-theme' }]
+   */
+  appliers?: ThemeApplier<T>[];
+
+  /**
+   * Design tokens per theme, written as CSS custom properties
+   * and available through useThemeTokens
+   */
+  tokens?: ThemeTokenMap<T>;
+
+  /**
+   * Prefix for token custom property names (e.g. "app" for --app-background)
+   * @default ""
+   */
+  tokenPrefix?: string;
+
+  /**
+   * How tokens are written to the document
+   * @default "inline"
+   */
+  tokenStrategy?: TokenStrategy;
+
+  /**
+   * How theme switches are animated; users who prefer reduced motion
+   * never get a crossfade
+   * @default "none"
+   */
+  transition?: TransitionStrategy | TransitionConfig;
+
+  /**
+   * Callback invoked when the theme or mode changes (except for the
+   * initial theme; listen for 'change' events to get that too)
+   * @param theme - The current theme (e.g., 'light' or 'dark')
+   * @param mode - The current mode ('auto', 'system', 'ambient' or a theme name)
+   * @param event - Why it changed, the previous values and when
+   */
+  onThemeChange?: (theme: T, mode: Mode<T>, event: ThemeChangeEvent<T>) => void;
+
+  /**
+   * Callback invoked for each invalid option, instead of a console warning
+   * The option is replaced by its fallback either way
+   * @param error - The invalid option and why it was rejected
    */
-  onThemeChange?: (theme: Theme, mode: Mode) => void;
+  onError?: (error: ConfigValidationError) => void;
+
+  /**
+   * Throw a ThemeConfigError for invalid options instead of falling back,
+   * outside production builds (NODE_ENV "production")
+   * @default false
+   */
+  strict?: boolean;
+}
+
+/**
+ * An invalid configuration option
+ */
+export interface ConfigValidationError {
+  /**
+   * Name of the option (e.g., "lightStart")
+   */
+  field: string;
+
+  /**
+   * The rejected value
+   */
+  value: unknown;
+
+  /**
+   * Why the value was rejected
+   */
+  reason: string;
 }
 
 /**
  * Theme context value exposed by useAutoTheme hook
  */
-export interface ThemeContextValue {
+export interface ThemeContextValue<T extends string = Theme> {
+  /**
+   * Current theme value (e.g., 'light' or 'dark')
+   */
+  theme: T;
+
   /**
-   * Current theme value ('light' or 'dark')
+   * Current mode value ('auto', 'system', 'ambient' or a theme name)
    */
-  theme: Theme;
+  mode: Mode<T>;
 
   /**
-   * Current mode value ('auto', 'light', or 'dark')
+   * All available theme names, in schedule order
    */
-  mode: Mode;
+  themes: T[];
+
+  /**
+   * When the current manual mode reverts to 'auto', or null if it doesn't
+   */
+  overrideUntil: Date | null;
+
+  /**
+   * Blend progress from 0 (fully light) to 1 (fully dark)
+   * Moves gradually during a twilight window, otherwise 1 for 'dark' and
+   * 0 for any other theme
+   */
+  progress: number;
 
   /**
    * Set the mode to 'light' (manual override)
+   * @param duration - How long the override lasts (defaults to config.overrideDuration)
    */
-  setLight: () => void;
+  setLight: (duration?: OverrideDuration) => void;
 
   /**
    * Set the mode to 'dark' (manual override)
+   * @param duration - How long the override lasts (defaults to config.overrideDuration)
    */
-  setDark: () => void;
+  setDark: (duration?: OverrideDuration) => void;
 
   /**
    * Set the mode to 'auto' (enables time-based switching)
@@ -87,16 +691,115 @@ export interface ThemeContextValue {
   setAuto: () => void;
 
   /**
-   * Toggle between light and dark themes
-   * (only affects theme, mode remains unchanged)
+   * Set the mode to 'system' (follows the OS color scheme)
+   * @param duration - How long the override lasts (defaults to config.overrideDuration)
+   */
+  setSystem: (duration?: OverrideDuration) => void;
+
+  /**
+   * Set the mode to 'ambient' (follows the room brightness)
+   * @param duration - How long the override lasts (defaults to config.overrideDuration)
+   */
+  setAmbient: (duration?: OverrideDuration) => void;
+
+  /**
+   * Set the mode to the given theme (manual override)
+   * @param duration - How long the override lasts (defaults to config.overrideDuration)
+   */
+  setTheme: (theme: T, duration?: OverrideDuration) => void;
+
+  /**
+   * Switch to the next available theme (manual override)
+   * With the default themes this toggles between light and dark
+   * @param duration - How long the override lasts (defaults to config.overrideDuration)
+   */
+  toggleTheme: (duration?: OverrideDuration) => void;
+
+  /**
+   * Daily light and dark start times in effect: the user's schedule, or
+   * lightStart and darkStart from the config
+   */
+  schedule: UserSchedule;
+
+  /**
+   * Whether the user chose their own schedule with setSchedule
+   */
+  isCustomSchedule: boolean;
+
+  /**
+   * Choose the daily light and dark start times, replacing the configured
+   * daily schedule (lightStart/darkStart, schedule and solar), and persist
+   * them next to the mode
+   * @param schedule - Light and dark start times
+   * @returns false if the times are invalid or equal, in which case nothing changes
    */
-  toggleTheme: () => void;
+  setSchedule: (schedule: UserSchedule) => boolean;
+
+  /**
+   * Remove the user's schedule and return to the configured one
+   */
+  resetSchedule: () => void;
+}
+
+/**
+ * Resolved mode and theme
+ * Used as the provider's internal state and as its `initialState`
+ */
+export interface ThemeState<T extends string = Theme> {
+  mode: Mode<T>;
+  theme: T;
+  /** Timestamp (ms) when a time-limited override reverts to 'auto' */
+  overrideUntil?: number | null;
+  /** Blend progress from 0 (fully light) to 1 (fully dark) */
+  progress?: number;
+  /** Schedule chosen by the user, or null for the configured one */
+  schedule?: UserSchedule | null;
+}
+
+/**
+ * Why the theme or mode changed
+ * - 'init': the initial theme was applied, or the stored mode finished loading
+ * - 'user': a setter was called (setMode, setDark, toggleTheme, ...)
+ * - 'schedule': a schedule boundary passed or a temporary override expired
+ * - 'visibility': re-evaluated after the page became visible again, the
+ *   device woke up or the clock changed
+ * - 'storage-sync': the mode was changed in another tab or window
+ * - 'system': the OS color scheme preference changed
+ * - 'ambient': the light sensor settled on another theme
+ * - 'config': the configuration changed
+ */
+export type ThemeChangeReason =
+  | 'init'
+  | 'user'
+  | 'schedule'
+  | 'visibility'
+  | 'storage-sync'
+  | 'system'
+  | 'ambient'
+  | 'config';
+
+/**
+ * A change of the theme or mode
+ */
+export interface ThemeChangeEvent<T extends string = Theme> {
+  /** Theme after the change */
+  theme: T;
+  /** Mode after the change */
+  mode: Mode<T>;
+  /** Theme before the change, or null for the initial theme */
+  previousTheme: T | null;
+  /** Mode before the change, or null for the initial theme */
+  previousMode: Mode<T> | null;
+  /** Why it changed */
+  reason: ThemeChangeReason;
+  /** When it changed (ms since epoch, on the configured clock) */
+  timestamp: number;
 }
 
 /**
- * Internal state for ThemeContext
+ * Events emitted by ThemeController and AutoThemeProvider, by name
  */
-export interface ThemeState {
-  mode: Mode;
-  theme: Theme;
+export interface ThemeEventMap<T extends string = Theme> {
+  /** The theme or mode changed */
+  change: ThemeChangeEvent<T>;
 }
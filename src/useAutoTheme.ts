@@ -3,16 +3,61 @@
  * Provides theme state and control functions to components
  */
 
-import { useContext, useCallback, useMemo } from 'react';
+import { useContext, useMemo, useEffect, useRef, useReducer } from 'react';
 import { ThemeContext } from './AutoThemeProvider';
-import { Theme, Mode, ThemeContextValue } from './types';
+import { getCurrentTime } from './schedule';
+import { getNextTransition } from './transitions';
+import { sharedScheduler } from './scheduler';
+import {
+  Theme,
+  Mode,
+  ThemeConfig,
+  ThemeContextValue,
+  ThemeTokens,
+  ThemeTokenMap,
+  ThemeEventMap,
+} from './types';
+
+/**
+ * Next switch of the schedule and the time left until it
+ */
+export interface NextTransitionState<T extends string = Theme> {
+  /** Instant of the switch, or null if the schedule doesn't switch */
+  at: Date | null;
+  /** Theme shown from then on */
+  theme: T | null;
+  /** Theme shown until then */
+  previousTheme: T | null;
+  /** Milliseconds left until the switch, as of the last render */
+  remaining: number | null;
+}
+
+/**
+ * Options of useNextTransition
+ */
+export interface NextTransitionOptions {
+  /**
+   * How often the countdown updates (in ms), aligned so it ticks when the
+   * remaining time crosses a multiple of the interval; null re-renders only
+   * at the switch itself
+   * @default 60000
+   */
+  interval?: number | null;
+}
+
+/**
+ * Default countdown interval of useNextTransition: one minute
+ */
+const DEFAULT_COUNTDOWN_INTERVAL = 60 * 1000;
 
 /**
  * Hook to access and control the auto theme
+ * Pass the app's theme names as a type argument for typed custom themes,
+ * e.g. useAutoTheme<'light' | 'dim' | 'dark'>()
  * @returns Theme context value with current state and control functions
  * @throws Error if used outside of AutoThemeProvider
  */
-export const useAutoTheme = (): ThemeContextValue => {
+export const useAutoTheme = <T extends string = Theme>(): ThemeContextValue<T> => {
   const context = useContext(ThemeContext);
 
   if (context === null) {
@@ -22,55 +67,71 @@ export const useAutoTheme = (): ThemeContextValue => {
     );
   }
 
-  const { mode, theme, setMode } = context;
-
-  /**
-   * Set the mode to 'light' (manual override)
-   */
-  const setLight = useCallback(() => {
-    setMode('light');
-  }, [setMode]);
-
-  /**
-   * Set the mode to 'dark' (manual override)
-   */
-  const setDark = useCallback(() => {
-    setMode('dark');
-  }, [setMode]);
-
-  /**
-   * Set the mode to 'auto' (enables time-based switching)
-   */
-  const setAuto = useCallback(() => {
-    setMode('auto');
-  }, [setMode]);
-
-  /**
-   * Toggle between light and dark themes
-   * (only affects theme, mode remains unchanged)
-   */
-  const toggleTheme = useCallback(() => {
-    setMode(theme === 'light' ? 'dark' : 'light');
-  }, [setMode, theme]);
+  // The provider's setters, so the ones passed to MockAutoThemeProvider are called
+  const {
+    mode,
+    theme,
+    themes,
+    overrideUntil,
+    progress,
+    setLight,
+    setDark,
+    setAuto,
+    setSystem,
+    setAmbient,
+    setTheme,
+    toggleTheme,
+    schedule,
+    isCustomSchedule,
+    setSchedule,
+    resetSchedule,
+  } = context;
 
   return useMemo(
     () => ({
+      theme: theme as T,
+      mode: mode as Mode<T>,
+      themes: themes as T[],
+      overrideUntil,
+      progress,
+      setLight,
+      setDark,
+      setAuto,
+      setSystem,
+      setAmbient,
+      setTheme: setTheme as ThemeContextValue<T>['setTheme'],
+      toggleTheme,
+      schedule,
+      isCustomSchedule,
+      setSchedule,
+      resetSchedule,
+    }),
+    [
       theme,
       mode,
+      themes,
+      overrideUntil,
+      progress,
       setLight,
       setDark,
       setAuto,
+      setSystem,
+      setAmbient,
+      setTheme,
       toggleTheme,
-    }),
-    [theme, mode, setLight, setDark, setAuto, toggleTheme]
+      schedule,
+      isCustomSchedule,
+      setSchedule,
+      resetSchedule,
+    ]
   );
 };
 
 /**
  * Hook to get only the current theme value
- * @returns Current theme ('light' or 'dark')
+ * @returns Current theme (e.g., 'light' or 'dark')
  */
-export const useTheme = (): Theme => {
+export const useTheme = <T extends string = Theme>(): T => {
   const context = useContext(ThemeContext);
 
   if (context === null) {
@@ -80,14 +141,14 @@ export const useTheme = (): Theme => {
     );
   }
 
-  return context.theme;
+  return context.theme as T;
 };
 
 /**
  * Hook to get only the current mode value
- * @returns Current mode ('auto', 'light', or 'dark')
+ * @returns Current mode ('auto', 'system', 'ambient' or a theme name)
  */
-export const useMode = (): Mode => {
+export const useMode = <T extends string = Theme>(): Mode<T> => {
   const context = useContext(ThemeContext);
 
   if (context === null) {
@@ -97,5 +158,160 @@ export const useMode = (): Mode => {
     );
   }
 
-  return context.mode;
+  return context.mode as Mode<T>;
+};
+
+/**
+ * Hook to get only the twilight blend progress
+ * @returns Progress from 0 (fully light) to 1 (fully dark)
+ */
+export const useThemeProgress = (): number => {
+  const context = useContext(ThemeContext);
+
+  if (context === null) {
+    throw new Error(
+      'useThemeProgress must be used within an AutoThemeProvider. ' +
+      'Make sure your component is wrapped with <AutoThemeProvider>.'
+    );
+  }
+
+  return context.progress;
+};
+
+/**
+ * Hook to get the design tokens of the current theme
+ * Pass the token map's type to infer the token keys,
+ * e.g. useThemeTokens<typeof tokens>().background
+ * @returns Tokens of the current theme, empty if it has none
+ */
+export const useThemeTokens = <M extends ThemeTokenMap<string> = Record<string, ThemeTokens>>(): NonNullable<
+  M[keyof M]
+> => {
+  const context = useContext(ThemeContext);
+
+  if (context === null) {
+    throw new Error(
+      'useThemeTokens must be used within an AutoThemeProvider. ' +
+      'Make sure your component is wrapped with <AutoThemeProvider>.'
+    );
+  }
+
+  return context.tokens as NonNullable<M[keyof M]>;
+};
+
+/**
+ * Hook to listen for theme events, such as changes with their reason
+ * The listener may change between renders without resubscribing
+ * @param type - Event name ('change')
+ * @param listener - Called with each event
+ *
+ * @example
+ * useThemeEvent('change', ({ theme, previousTheme, reason }) => {
+ *   analytics.track('theme_change', { theme, previousTheme, reason });
+ * });
+ */
+export const useThemeEvent = <K extends keyof ThemeEventMap>(
+  type: K,
+  listener: (event: ThemeEventMap[K]) => void
+): void => {
+  const context = useContext(ThemeContext);
+
+  if (context === null) {
+    throw new Error(
+      'useThemeEvent must be used within an AutoThemeProvider. ' +
+      'Make sure your component is wrapped with <AutoThemeProvider>.'
+    );
+  }
+
+  const listenerRef = useRef(listener);
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  const { on } = context;
+  useEffect(() => on(type, (event) => listenerRef.current(event)), [on, type]);
+};
+
+/**
+ * Re-render once a time on the configured clock has come
+ * Uses the shared scheduler, so it survives sleep and clock changes
+ * @param dueTime - Timestamp (ms), or null to not re-render
+ * @param config - Theme configuration providing the clock
+ */
+export const useRenderAt = (dueTime: number | null, config: Pick<ThemeConfig, 'now'>): void => {
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+
+  // Latest config, read by the task so a new config object doesn't re-add it
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  useEffect(() => {
+    if (dueTime === null) {
+      return undefined;
+    }
+    let due: number | null = dueTime;
+    const getNow = () => getCurrentTime(configRef.current).getTime();
+    return sharedScheduler.add({
+      now: getNow,
+      getDueTime: () => due,
+      run: () => {
+        // Also run on wake-ups, when the time may not have come yet
+        if (due !== null && getNow() >= due) {
+          due = null;
+        }
+        forceUpdate();
+      },
+    });
+  }, [dueTime]);
+};
+
+/**
+ * Hook to get the next switch of the schedule with a live countdown
+ * Follows the schedule 'auto' uses, whichever mode is selected; the OS
+ * preference and light sensor aren't predicted. Re-renders once per
+ * interval (a minute by default) and at the switch, not every second.
+ * @param options - Countdown options
+ * @returns Next switch and the milliseconds left until it
+ *
+ * @example
+ * const { theme, remaining } = useNextTransition();
+ * const minutes = Math.ceil((remaining ?? 0) / 60000);
+ * // "Dark mode starts in 2 h 14 min"
+ * return <p>{theme} mode starts in {Math.floor(minutes / 60)} h {minutes % 60} min</p>;
+ */
+export const useNextTransition = <T extends string = Theme>(
+  options: NextTransitionOptions = {}
+): NextTransitionState<T> => {
+  const context = useContext(ThemeContext);
+
+  if (context === null) {
+    throw new Error(
+      'useNextTransition must be used within an AutoThemeProvider. ' +
+      'Make sure your component is wrapped with <AutoThemeProvider>.'
+    );
+  }
+
+  const { interval = DEFAULT_COUNTDOWN_INTERVAL } = options;
+  const config = context.resolvedConfig as ThemeConfig<T>;
+  const now = getCurrentTime(config).getTime();
+  const next = getNextTransition(config, new Date(now));
+
+  let dueTime: number | null = null;
+  if (next) {
+    const at = next.at.getTime();
+    const remaining = at - now;
+    dueTime =
+      interval && interval > 0
+        ? // Next time the remaining time is a multiple of the interval
+          at - (Math.ceil(remaining / interval) - 1) * interval
+        : at;
+  }
+  useRenderAt(dueTime, config);
+
+  return {
+    at: next?.at ?? null,
+    theme: next?.theme ?? null,
+    previousTheme: next?.previousTheme ?? null,
+    remaining: next ? next.at.getTime() - now : null,
+  };
 };
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import {
+  INITIAL_AMBIENT_STATE,
+  getAmbientTheme,
+  updateAmbientState,
+  getAmbientDueTime,
+  isValidAmbientConfig,
+} from '../src/ambient';
+import { createMockLightSensor, createThemeTestHarness } from '../src/testUtils';
+
+const SECOND = 1000;
+
+const ambient = { darkBelow: 50, lightAbove: 150, dwell: 10 };
+
+describe('getAmbientTheme', () => {
+  it('switches outside the thresholds', () => {
+    expect(getAmbientTheme(10, 'light', ambient)).toBe('dark');
+    expect(getAmbientTheme(400, 'dark', ambient)).toBe('light');
+  });
+
+  it('keeps the current theme between the thresholds', () => {
+    expect(getAmbientTheme(100, 'light', ambient)).toBe('light');
+    expect(getAmbientTheme(100, 'dark', ambient)).toBe('dark');
+    expect(getAmbientTheme(50, 'light', ambient)).toBe('light');
+    expect(getAmbientTheme(150, 'dark', ambient)).toBe('dark');
+  });
+
+  it('uses the closer threshold without a current theme', () => {
+    expect(getAmbientTheme(70, null, ambient)).toBe('dark');
+    expect(getAmbientTheme(130, null, ambient)).toBe('light');
+  });
+});
+
+describe('updateAmbientState', () => {
+  it('settles the first reading at once', () => {
+    const state = updateAmbientState(INITIAL_AMBIENT_STATE, 10, ambient, 0);
+    expect(state).toEqual({ theme: 'dark', pending: null, lux: 10 });
+  });
+
+  it('switches only after the readings held for the dwell time', () => {
+    let state = updateAmbientState(INITIAL_AMBIENT_STATE, 400, ambient, 0);
+    state = updateAmbientState(state, 10, ambient, 1 * SECOND);
+    expect(state.theme).toBe('light');
+    expect(getAmbientDueTime(state, ambient)).toBe(11 * SECOND);
+
+    state = updateAmbientState(state, 20, ambient, 5 * SECOND);
+    expect(state.theme).toBe('light');
+    expect(getAmbientDueTime(state, ambient)).toBe(11 * SECOND);
+
+    state = updateAmbientState(state, 20, ambient, 11 * SECOND);
+    expect(state).toEqual({ theme: 'dark', pending: null, lux: 20 });
+    expect(getAmbientDueTime(state, ambient)).toBeNull();
+  });
+
+  it('cancels a pending switch when the light returns', () => {
+    let state = updateAmbientState(INITIAL_AMBIENT_STATE, 400, ambient, 0);
+    state = updateAmbientState(state, 10, ambient, 1 * SECOND);
+    // Back within the hysteresis band, so the light theme still holds
+    state = updateAmbientState(state, 100, ambient, 2 * SECOND);
+    expect(state.pending).toBeNull();
+
+    state = updateAmbientState(state, 10, ambient, 3 * SECOND);
+    expect(getAmbientDueTime(state, ambient)).toBe(13 * SECOND);
+  });
+
+  it('returns the same state for a repeated reading', () => {
+    const state = updateAmbientState(INITIAL_AMBIENT_STATE, 400, ambient, 0);
+    expect(updateAmbientState(state, 400, ambient, 5 * SECOND)).toBe(state);
+  });
+
+  it('forgets the readings without a sensor', () => {
+    const state = updateAmbientState(INITIAL_AMBIENT_STATE, 400, ambient, 0);
+    expect(updateAmbientState(state, null, ambient, 1 * SECOND)).toBe(INITIAL_AMBIENT_STATE);
+    expect(updateAmbientState(state, NaN, ambient, 1 * SECOND)).toBe(INITIAL_AMBIENT_STATE);
+  });
+});
+
+describe('ambient mode', () => {
+  const schedule = { lightStart: '07:00', darkStart: '22:00', timeZone: 'UTC' };
+
+  it('switches past the thresholds after the dwell time', () => {
+    const sensor = createMockLightSensor(400);
+    const harness = createThemeTestHarness(
+      { ...schedule, defaultMode: 'ambient', ambient: { sensor, ...ambient } },
+      '2024-06-01T12:00:00Z'
+    );
+    expect(harness.controller.getState().theme).toBe('light');
+    expect(sensor.subscriberCount).toBe(1);
+
+    // Within the hysteresis band, nothing changes
+    sensor.emit(100);
+    harness.advance(20 * SECOND);
+    expect(harness.controller.getState().theme).toBe('light');
+
+    sensor.emit(10);
+    harness.advance(9 * SECOND);
+    expect(harness.controller.getState().theme).toBe('light');
+    harness.advance(1 * SECOND);
+    expect(harness.controller.getState().theme).toBe('dark');
+
+    sensor.emit(400);
+    harness.advance(10 * SECOND);
+    expect(harness.changes.map(({ theme }) => theme)).toEqual(['dark', 'light']);
+    harness.destroy();
+    expect(sensor.subscriberCount).toBe(0);
+  });
+
+  it('follows the schedule without a sensor reading', () => {
+    const sensor = createMockLightSensor();
+    const harness = createThemeTestHarness(
+      { ...schedule, defaultMode: 'ambient', ambient: { sensor, ...ambient } },
+      '2024-06-01T23:00:00Z'
+    );
+    expect(harness.controller.getState().theme).toBe('dark');
+
+    // The first reading settles at once
+    sensor.emit(400);
+    expect(harness.controller.getState().theme).toBe('light');
+
+    // A failed sensor falls back to the schedule
+    sensor.emit(null);
+    expect(harness.controller.getState().theme).toBe('dark');
+    harness.advanceToNextBoundary();
+    expect(harness.controller.getState().theme).toBe('light');
+    expect(harness.changes.map(({ reason }) => reason)).toEqual(['ambient', 'ambient', 'schedule']);
+    harness.destroy();
+  });
+
+  it('stops reading the sensor in other modes', () => {
+    const sensor = createMockLightSensor(10);
+    const harness = createThemeTestHarness(
+      { ...schedule, defaultMode: 'ambient', ambient: { sensor, ...ambient } },
+      '2024-06-01T12:00:00Z'
+    );
+    expect(harness.controller.getState().theme).toBe('dark');
+
+    harness.controller.setMode('auto');
+    expect(sensor.subscriberCount).toBe(0);
+    sensor.emit(1);
+    expect(harness.controller.getState().theme).toBe('light');
+    harness.destroy();
+  });
+});
+
+describe('isValidAmbientConfig', () => {
+  it('accepts the defaults and ordered thresholds', () => {
+    expect(isValidAmbientConfig({})).toBe(true);
+    expect(isValidAmbientConfig({ darkBelow: 100, lightAbove: 100, dwell: 0 })).toBe(true);
+  });
+
+  it('rejects reversed thresholds and invalid timing', () => {
+    expect(isValidAmbientConfig({ darkBelow: 200, lightAbove: 100 })).toBe(false);
+    expect(isValidAmbientConfig({ darkBelow: -1 })).toBe(false);
+    expect(isValidAmbientConfig({ dwell: -5 })).toBe(false);
+    expect(isValidAmbientConfig({ frequency: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import React from 'react';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { createRequire } from 'module';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { renderToStaticMarkup } from 'react-dom/server';
+
+const root = path.join(__dirname, '..');
+const requireFromRoot = createRequire(path.join(root, 'package.json'));
+
+/**
+ * Render a component using the root entry's hook inside the testing entry's mock provider
+ */
+const renderAcrossEntries = (
+  index: { useAutoTheme: () => { theme: string } },
+  testing: { MockAutoThemeProvider: React.FC<{ theme: string; children: React.ReactNode }> }
+): string => {
+  const Theme = () => <span>{index.useAutoTheme().theme}</span>;
+  return renderToStaticMarkup(
+    <testing.MockAutoThemeProvider theme="dark">
+      <Theme />
+    </testing.MockAutoThemeProvider>
+  );
+};
+
+describe('built entries', () => {
+  beforeAll(() => {
+    execFileSync('node', ['esbuild.config.js'], { cwd: root, stdio: 'ignore' });
+  }, 120000);
+
+  it('share the theme context between the CommonJS entries', () => {
+    const index = requireFromRoot('./dist/index.js');
+    const testing = requireFromRoot('./dist/testing.js');
+    expect(renderAcrossEntries(index, testing)).toBe('<span>dark</span>');
+  });
+
+  it('share the theme context between the ES module entries', async () => {
+    const index = await import(pathToFileURL(path.join(root, 'dist/index.mjs')).href);
+    const testing = await import(pathToFileURL(path.join(root, 'dist/testing.mjs')).href);
+    expect(renderAcrossEntries(index, testing)).toBe('<span>dark</span>');
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { resolveConfig, validateConfig, isSameConfig, ThemeConfigError } from '../src/config';
+import { AutoThemeProvider } from '../src/AutoThemeProvider';
+import { ThemeController } from '../src/ThemeController';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('validateConfig', () => {
+  it('accepts a valid configuration', () => {
+    expect(validateConfig({ lightStart: '6:30 AM', darkStart: { hour: 19, minute: 45 } })).toEqual([]);
+  });
+
+  it('reports each invalid option with its value and reason', () => {
+    const errors = validateConfig({ lightStart: '7:30 PM', darkStart: '25:00', timeZone: 'Mars/Base' });
+    expect(errors).toEqual([
+      {
+        field: 'darkStart',
+        value: '25:00',
+        reason: 'Invalid hour value: "25". Hours must be between 0 and 23.',
+      },
+      { field: 'timeZone', value: 'Mars/Base', reason: 'Unknown time zone.' },
+    ]);
+  });
+
+  it('explains invalid schedules', () => {
+    const [error] = validateConfig({
+      schedule: [
+        { start: '07:00', theme: 'day' },
+        { start: '7:00 AM', theme: 'night' },
+      ],
+    });
+    expect(error).toMatchObject({ field: 'schedule', reason: 'Two segments start at the same time.' });
+  });
+
+  it('rejects a default mode that is neither automatic nor available', () => {
+    expect(validateConfig({ defaultMode: 'ambient' })).toEqual([]);
+    expect(validateConfig({ defaultMode: 'sepia' })).toMatchObject([{ field: 'defaultMode' }]);
+    expect(validateConfig({ defaultMode: 'sepia', themes: ['sepia'] })).toEqual([]);
+  });
+
+  it('reports values of the wrong shape instead of throwing', () => {
+    const invalid: Array<[string, unknown]> = [
+      ['schedule', [null]],
+      ['schedule', 'night'],
+      ['days', 'x'],
+      ['days', { someday: { theme: 'dark' } }],
+      ['days', { monday: 'dark' }],
+      ['exceptions', {}],
+      ['exceptions', [null]],
+      ['exceptions', [{ date: 20241225, theme: 'dark' }]],
+      ['appliers', 'x'],
+      ['appliers', [null]],
+      ['ambient', { sensor: null }],
+    ];
+    invalid.forEach(([field, value]) => {
+      expect(validateConfig({ [field]: value })).toMatchObject([{ field, value }]);
+    });
+  });
+
+  it('checks the transition as given', () => {
+    expect(validateConfig({ transition: 'view-transition' })).toEqual([]);
+    expect(validateConfig({ transition: { strategy: 'disable-transitions', duration: 0 } })).toEqual([]);
+    [5, null, 'fade', {}, { strategy: 'view-transition', duration: -1 }, { strategy: 'none', easing: 1 }].forEach(
+      (transition) => {
+        expect(validateConfig({ transition: transition as never })).toMatchObject([
+          { field: 'transition', value: transition },
+        ]);
+      }
+    );
+  });
+
+  it('keeps the valid appliers of an array only', () => {
+    const onError = vi.fn();
+    const applier = { type: 'class' as const };
+    expect(resolveConfig({ appliers: [applier, null as never], onError }).appliers).toEqual([applier]);
+    expect(resolveConfig({ appliers: 'x' as never, onError }).appliers).toBeUndefined();
+    expect(onError).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('resolveConfig', () => {
+  it('replaces only the invalid start time', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config = resolveConfig({ lightStart: '06:00', darkStart: '25:00' });
+    expect(config.lightStart).toBe('06:00');
+    expect(config.darkStart).toBe('22:00');
+    expect(console.warn).toHaveBeenCalledWith(
+      'AutoThemeProvider: Invalid darkStart "25:00": Invalid hour value: "25". ' +
+        'Hours must be between 0 and 23. Using "22:00" instead.'
+    );
+  });
+
+  it('passes invalid options to onError instead of warning', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const onError = vi.fn();
+    resolveConfig({ lightStart: 'noon', onError });
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ field: 'lightStart', value: 'noon' }));
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('throws every invalid option in strict mode during development', () => {
+    try {
+      resolveConfig({ lightStart: 'noon', twilight: { duration: 0 }, strict: true });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ThemeConfigError);
+      expect((error as ThemeConfigError).errors.map(({ field }) => field)).toEqual([
+        'lightStart',
+        'twilight',
+      ]);
+    }
+  });
+
+  it('falls back in strict mode in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      expect(resolveConfig({ lightStart: 'noon', strict: true }).lightStart).toBe('07:00');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+describe('reporting invalid options once', () => {
+  it('passes resolved configurations through', () => {
+    const onError = vi.fn();
+    const resolved = resolveConfig({ darkStart: '25:00', onError });
+    expect(resolveConfig(resolved)).toBe(resolved);
+    new ThemeController(resolved).destroy();
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports once per server render', () => {
+    const onError = vi.fn();
+    renderToStaticMarkup(
+      React.createElement(AutoThemeProvider, {
+        config: { darkStart: '25:00', onError },
+        children: 'content',
+      })
+    );
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isSameConfig', () => {
+  it('compares plain options by value, ignoring the identity of top-level callbacks', () => {
+    expect(
+      isSameConfig(
+        { lightStart: '07:00', twilight: { duration: 30 }, onError: () => {} },
+        { lightStart: '07:00', twilight: { duration: 30 }, onError: () => {} }
+      )
+    ).toBe(true);
+    expect(isSameConfig({ twilight: { duration: 30 } }, { twilight: { duration: 60 } })).toBe(false);
+    expect(isSameConfig({ onError: () => {} }, {})).toBe(false);
+  });
+
+  it('detects a swapped applier function or target element', () => {
+    const apply = () => {};
+    const target = new EventTarget() as unknown as Element;
+    const config = { appliers: [{ type: 'callback' as const, apply }] };
+
+    expect(isSameConfig(config, { appliers: [{ type: 'callback', apply }] })).toBe(true);
+    expect(isSameConfig(config, { appliers: [{ type: 'callback', apply: () => {} }] })).toBe(false);
+    expect(
+      isSameConfig(
+        { appliers: [{ type: 'class', target }] },
+        { appliers: [{ type: 'class', target: new EventTarget() as unknown as Element }] }
+      )
+    ).toBe(false);
+  });
+
+  it('detects a swapped sensor or storage adapter', () => {
+    const sensor = { subscribe: () => () => {} };
+    expect(isSameConfig({ ambient: { sensor } }, { ambient: { sensor } })).toBe(true);
+    expect(isSameConfig({ ambient: { sensor } }, { ambient: { sensor: { subscribe: () => () => {} } } })).toBe(
+      false
+    );
+    const storage = { get: () => null, set: () => {}, remove: () => {} };
+    expect(isSameConfig({ storage }, { storage: { ...storage, get: () => 'dark' } })).toBe(false);
+  });
+
+  it('compares circular values without overflowing', () => {
+    const a: Record<string, unknown> = { duration: 30 };
+    a.self = a;
+    const b: Record<string, unknown> = { duration: 30 };
+    b.self = b;
+    expect(isSameConfig({ twilight: a as never }, { twilight: b as never })).toBe(true);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createEventEmitter } from '../src/events';
+import { createThemeTestHarness, assertThemeChanges } from '../src/testUtils';
+
+interface TestEvents {
+  ping: number;
+}
+
+describe('createEventEmitter', () => {
+  it('calls the listeners of an event until they are removed', () => {
+    const emitter = createEventEmitter<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+    const removeFirst = emitter.on('ping', first);
+    emitter.on('ping', second);
+
+    emitter.emit('ping', 1);
+    removeFirst();
+    emitter.off('ping', second);
+    emitter.emit('ping', 2);
+
+    expect(first.mock.calls).toEqual([[1]]);
+    expect(second.mock.calls).toEqual([[1]]);
+  });
+
+  it('keeps calling listeners after one throws', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const emitter = createEventEmitter<TestEvents>();
+    const listener = vi.fn();
+    emitter.on('ping', () => {
+      throw new Error('failed');
+    });
+    emitter.on('ping', listener);
+
+    emitter.emit('ping', 1);
+
+    expect(listener).toHaveBeenCalledWith(1);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
+
+describe('theme change reasons', () => {
+  it('reports schedule boundaries and user changes', () => {
+    const harness = createThemeTestHarness(
+      { lightStart: '07:00', darkStart: '22:00', timeZone: 'UTC' },
+      '2024-06-01T21:30:00Z'
+    );
+
+    harness.advanceToNextBoundary();
+    harness.controller.setMode('light');
+
+    assertThemeChanges(harness.changes, [
+      { theme: 'dark', mode: 'auto', reason: 'schedule' },
+      { theme: 'light', mode: 'light', reason: 'user' },
+    ]);
+    harness.destroy();
+  });
+});
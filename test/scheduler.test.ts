@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createScheduler, ScheduledTask } from '../src/scheduler';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// Monotonic time follows the fake wall clock, apart from simulated clock changes
+let clockOffset = 0;
+
+/**
+ * Move the time on without running timers, as while the device sleeps
+ */
+const sleep = (ms: number) => {
+  vi.setSystemTime(Date.now() + ms);
+};
+
+/**
+ * Change the wall clock without any real time passing
+ */
+const changeClock = (ms: number) => {
+  vi.setSystemTime(Date.now() + ms);
+  clockOffset -= ms;
+};
+
+/**
+ * Task due at a fixed time on the fake wall clock, recording why it ran
+ */
+const createTask = (dueTime: number | null) => {
+  const runs: string[] = [];
+  const task: ScheduledTask & { runs: string[]; dueTime: number | null } = {
+    runs,
+    dueTime,
+    now: () => Date.now(),
+    getDueTime: () => task.dueTime,
+    run: (trigger) => {
+      runs.push(trigger);
+      if (task.dueTime !== null && task.dueTime <= Date.now()) {
+        task.dueTime = null;
+      }
+    },
+  };
+  return task;
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+  vi.setSystemTime(Date.parse('2024-06-01T12:00:00Z'));
+  clockOffset = 0;
+  vi.spyOn(performance, 'now').mockImplementation(() => Date.now() + clockOffset);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('createScheduler', () => {
+  it('runs several tasks at their due times from one timer', () => {
+    const scheduler = createScheduler();
+    const first = createTask(Date.now() + 10 * SECOND);
+    const second = createTask(Date.now() + 20 * SECOND);
+    const idle = createTask(null);
+    scheduler.add(second);
+    scheduler.add(first);
+    scheduler.add(idle);
+    expect(vi.getTimerCount()).toBe(1);
+
+    vi.advanceTimersByTime(10 * SECOND);
+    expect([first.runs, second.runs]).toEqual([['due'], []]);
+
+    vi.advanceTimersByTime(10 * SECOND);
+    expect([first.runs, second.runs, idle.runs]).toEqual([['due'], ['due'], []]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('stops the timer once its tasks are removed', () => {
+    const scheduler = createScheduler();
+    const task = createTask(Date.now() + 10 * SECOND);
+    const remove = scheduler.add(task);
+
+    remove();
+    vi.advanceTimersByTime(MINUTE);
+
+    expect(task.runs).toEqual([]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('runs every task when the timer fires late', () => {
+    const scheduler = createScheduler();
+    const task = createTask(Date.now() + 10 * MINUTE);
+    scheduler.add(task);
+
+    // Within the tolerance, the heartbeat only re-arms
+    sleep(1 * SECOND);
+    vi.advanceTimersByTime(MINUTE);
+    expect(task.runs).toEqual([]);
+
+    sleep(5 * MINUTE);
+    vi.advanceTimersByTime(MINUTE);
+    expect(task.runs).toEqual(['wake']);
+
+    // Re-armed for the rest of the wait
+    vi.advanceTimersByTime(3 * MINUTE - 1 * SECOND);
+    expect(task.runs).toEqual(['wake', 'due']);
+  });
+
+  it('runs every task when the clock is set forward', () => {
+    const scheduler = createScheduler();
+    const task = createTask(Date.now() + 10 * MINUTE);
+    scheduler.add(task);
+
+    changeClock(5 * MINUTE);
+    vi.advanceTimersByTime(MINUTE);
+    expect(task.runs).toEqual(['wake']);
+
+    vi.advanceTimersByTime(4 * MINUTE);
+    expect(task.runs).toEqual(['wake', 'due']);
+  });
+
+  it('runs every task when the clock is set back', () => {
+    const scheduler = createScheduler();
+    const task = createTask(Date.now() + 10 * MINUTE);
+    scheduler.add(task);
+
+    changeClock(-30 * MINUTE);
+    vi.advanceTimersByTime(MINUTE);
+    expect(task.runs).toEqual(['wake']);
+
+    // Waits for the due time on the new clock
+    vi.advanceTimersByTime(38 * MINUTE);
+    expect(task.runs).toEqual(['wake']);
+    vi.advanceTimersByTime(MINUTE);
+    expect(task.runs).toEqual(['wake', 'due']);
+  });
+
+  it('runs every task on wake events while visible', () => {
+    const document = Object.assign(new EventTarget(), { visibilityState: 'hidden' });
+    const window = new EventTarget();
+    vi.stubGlobal('document', document);
+    vi.stubGlobal('window', window);
+
+    const scheduler = createScheduler();
+    const due = createTask(Date.now());
+    const waiting = createTask(Date.now() + 10 * MINUTE);
+    const idle = createTask(null);
+    const removeWaiting = scheduler.add(waiting);
+    const removeIdle = scheduler.add(idle);
+
+    document.dispatchEvent(new Event('visibilitychange'));
+    expect(waiting.runs).toEqual([]);
+
+    document.visibilityState = 'visible';
+    document.dispatchEvent(new Event('visibilitychange'));
+    window.dispatchEvent(new Event('focus'));
+    expect(waiting.runs).toEqual(['wake', 'wake']);
+    expect(idle.runs).toEqual(['wake', 'wake']);
+
+    // Tasks whose due time has come still run as due
+    const removeDue = scheduler.add(due);
+    window.dispatchEvent(new Event('online'));
+    expect(due.runs).toEqual(['due']);
+    expect(idle.runs).toEqual(['wake', 'wake', 'wake']);
+
+    // The listeners go with the last task
+    [removeWaiting, removeIdle, removeDue].forEach((remove) => remove());
+    window.dispatchEvent(new Event('pageshow'));
+    expect(idle.runs).toEqual(['wake', 'wake', 'wake']);
+  });
+
+  it('reports tasks due before a late timer as due', () => {
+    const scheduler = createScheduler();
+    const due = createTask(Date.now() + 30 * SECOND);
+    const waiting = createTask(Date.now() + 10 * MINUTE);
+    scheduler.add(due);
+    scheduler.add(waiting);
+
+    // Throttled in a background tab, the timer fires a while after the due time
+    sleep(20 * SECOND);
+    vi.advanceTimersByTime(30 * SECOND);
+
+    expect(due.runs).toEqual(['due']);
+    expect(waiting.runs).toEqual(['wake']);
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { getServerThemeState } from '../src/server';
+import { resolveConfig } from '../src/config';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+
+describe('getServerThemeState', () => {
+  it('uses the time zone of each request with a shared config', () => {
+    const config = resolveConfig({ lightStart: '07:00', darkStart: '19:00', now: () => NOW });
+
+    expect(getServerThemeState(config, { timeZone: 'Asia/Tokyo' }).theme).toBe('dark');
+    expect(getServerThemeState(config, { timeZone: 'Europe/London' }).theme).toBe('light');
+    expect(config.timeZone).toBeUndefined();
+  });
+
+  it('prefers the configured time zone', () => {
+    const config = { lightStart: '07:00', darkStart: '19:00', timeZone: 'UTC', now: () => NOW };
+    expect(getServerThemeState(config, { timeZone: 'Asia/Tokyo' }).theme).toBe('light');
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSunTimes,
+  getSolarThemeFromTime,
+  getMsUntilNextSolarBoundary,
+  isValidSolarConfig,
+} from '../src/solar';
+import { getThemeAt, getTransitions } from '../src/transitions';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const NEW_YORK = { latitude: 40.7128, longitude: -74.006 };
+const SYDNEY = { latitude: -33.8688, longitude: 151.2093 };
+const TROMSO = { latitude: 69.6492, longitude: 18.9553 };
+
+/**
+ * Expect an instant to be within two minutes of a published time
+ */
+const expectNear = (actual: Date | null, expected: string) => {
+  expect(actual).not.toBeNull();
+  const difference = (actual as Date).getTime() - new Date(expected).getTime();
+  expect(Math.abs(difference)).toBeLessThan(2 * MINUTE);
+};
+
+const sunTimes = (place: { latitude: number; longitude: number }, date: string, timeZone: string) =>
+  getSunTimes(new Date(date), place.latitude, place.longitude, timeZone);
+
+describe('getSunTimes', () => {
+  it('matches published sunrise and sunset times', () => {
+    const london = sunTimes(LONDON, '2024-06-21T12:00:00Z', 'Europe/London');
+    expectNear(london.sunrise, '2024-06-21T03:43:00Z');
+    expectNear(london.sunset, '2024-06-21T20:21:00Z');
+
+    const newYork = sunTimes(NEW_YORK, '2024-12-21T17:00:00Z', 'America/New_York');
+    expectNear(newYork.sunrise, '2024-12-21T12:16:00Z');
+    expectNear(newYork.sunset, '2024-12-21T21:32:00Z');
+    expect(newYork.polarDay || newYork.polarNight).toBe(false);
+  });
+
+  it('takes the day from the time zone, east of UTC', () => {
+    // Sydney's sunrise on 21 June is still 20 June in UTC
+    const sydney = sunTimes(SYDNEY, '2024-06-21T02:00:00Z', 'Australia/Sydney');
+    expectNear(sydney.sunrise, '2024-06-20T21:00:00Z');
+    expectNear(sydney.sunset, '2024-06-21T06:54:00Z');
+  });
+
+  it('reports polar day and polar night', () => {
+    const summer = sunTimes(TROMSO, '2024-06-21T12:00:00Z', 'Europe/Oslo');
+    expect(summer).toEqual({ sunrise: null, sunset: null, polarDay: true, polarNight: false });
+
+    const winter = sunTimes(TROMSO, '2024-12-21T12:00:00Z', 'Europe/Oslo');
+    expect(winter).toEqual({ sunrise: null, sunset: null, polarDay: false, polarNight: true });
+  });
+});
+
+describe('getSolarThemeFromTime', () => {
+  it('is light between sunrise and sunset', () => {
+    expect(getSolarThemeFromTime(LONDON, new Date('2024-06-21T03:40:00Z'), 'UTC')).toBe('dark');
+    expect(getSolarThemeFromTime(LONDON, new Date('2024-06-21T03:50:00Z'), 'UTC')).toBe('light');
+    expect(getSolarThemeFromTime(LONDON, new Date('2024-06-21T20:15:00Z'), 'UTC')).toBe('light');
+    expect(getSolarThemeFromTime(LONDON, new Date('2024-06-21T20:30:00Z'), 'UTC')).toBe('dark');
+  });
+
+  it('applies the offsets', () => {
+    const solar = { ...LONDON, sunriseOffset: 30, sunsetOffset: -30 };
+    expect(getSolarThemeFromTime(solar, new Date('2024-06-21T04:00:00Z'), 'UTC')).toBe('dark');
+    expect(getSolarThemeFromTime(solar, new Date('2024-06-21T20:00:00Z'), 'UTC')).toBe('dark');
+  });
+
+  it('keeps a sunset pushed past midnight on the previous day', () => {
+    const solar = { ...LONDON, sunsetOffset: 240 };
+    expect(getSolarThemeFromTime(solar, new Date('2024-06-22T00:10:00Z'), 'UTC')).toBe('light');
+    expect(getSolarThemeFromTime(solar, new Date('2024-06-22T00:30:00Z'), 'UTC')).toBe('dark');
+  });
+
+  it('stays light during polar day and dark during polar night', () => {
+    const midnight = new Date('2024-06-21T22:30:00Z');
+    const noon = new Date('2024-12-21T11:00:00Z');
+    expect(getSolarThemeFromTime(TROMSO, midnight, 'Europe/Oslo')).toBe('light');
+    expect(getSolarThemeFromTime(TROMSO, noon, 'Europe/Oslo')).toBe('dark');
+  });
+});
+
+describe('getMsUntilNextSolarBoundary', () => {
+  it('measures the time until sunset', () => {
+    const ms = getMsUntilNextSolarBoundary(LONDON, new Date('2024-06-21T19:21:00Z'), 'UTC');
+    expect(Math.abs(ms - HOUR)).toBeLessThan(2 * MINUTE);
+  });
+
+  it('re-evaluates polar days at the next local midnight', () => {
+    // 14:00 in Oslo, 10 hours before midnight
+    const now = new Date('2024-06-21T12:00:00Z');
+    expect(getMsUntilNextSolarBoundary(TROMSO, now, 'Europe/Oslo')).toBe(10 * HOUR);
+  });
+});
+
+describe('isValidSolarConfig', () => {
+  it('checks the coordinates and offsets', () => {
+    expect(isValidSolarConfig(LONDON)).toBe(true);
+    expect(isValidSolarConfig({ latitude: 91, longitude: 0 })).toBe(false);
+    expect(isValidSolarConfig({ latitude: 0, longitude: -181 })).toBe(false);
+    expect(isValidSolarConfig({ latitude: NaN, longitude: 0 })).toBe(false);
+    expect(isValidSolarConfig({ ...LONDON, sunsetOffset: Infinity })).toBe(false);
+  });
+});
+
+describe('solar schedules', () => {
+  it('switches at sunrise and sunset', () => {
+    const transitions = getTransitions(
+      new Date('2024-06-21T00:00:00Z'),
+      new Date('2024-06-21T23:59:00Z'),
+      { solar: LONDON, timeZone: 'UTC' }
+    );
+    expect(transitions.map(({ theme }) => theme)).toEqual(['light', 'dark']);
+    expectNear(transitions[0].at, '2024-06-21T03:43:00Z');
+    expectNear(transitions[1].at, '2024-06-21T20:21:00Z');
+  });
+
+  it('lets weekday schedules and date exceptions take precedence', () => {
+    const config = {
+      solar: LONDON,
+      timeZone: 'UTC',
+      days: { saturday: { theme: 'dark' as const } },
+      exceptions: [{ date: '2024-06-24', lightStart: '09:00' }],
+    };
+    // 2024-06-22 is a Saturday
+    expect(getThemeAt(new Date('2024-06-21T12:00:00Z'), config)).toBe('light');
+    expect(getThemeAt(new Date('2024-06-22T12:00:00Z'), config)).toBe('dark');
+    expect(getThemeAt(new Date('2024-06-23T12:00:00Z'), config)).toBe('light');
+    expect(getThemeAt(new Date('2024-06-24T08:00:00Z'), config)).toBe('dark');
+    expect(getThemeAt(new Date('2024-06-24T09:00:00Z'), config)).toBe('light');
+  });
+
+  it("starts a day's own schedule over a sunset pushed past midnight", () => {
+    const config = {
+      solar: { ...LONDON, sunsetOffset: 240 },
+      timeZone: 'UTC',
+      themes: ['dim'],
+      days: { saturday: { theme: 'dim' } },
+    };
+    expect(getThemeAt(new Date('2024-06-21T23:00:00Z'), config)).toBe('light');
+    expect(getThemeAt(new Date('2024-06-22T00:30:00Z'), config)).toBe('dim');
+  });
+
+  it('follows polar day and polar night', () => {
+    const config = { solar: TROMSO, timeZone: 'Europe/Oslo' };
+    expect(getThemeAt(new Date('2024-06-21T22:30:00Z'), config)).toBe('light');
+    expect(getThemeAt(new Date('2024-12-21T11:00:00Z'), config)).toBe('dark');
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  parseStoredData,
+  migrateStoredValue,
+  readStoredData,
+  serializePreference,
+  createMemoryStorageAdapter,
+  StoredThemeRead,
+} from '../src/storage';
+import { StorageAdapter } from '../src/types';
+import { createThemeTestHarness } from '../src/testUtils';
+import { ThemeController } from '../src/ThemeController';
+
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+
+describe('parseStoredData', () => {
+  it('reads the current format', () => {
+    const value = serializePreference({ mode: 'dark', until: NOW + 1000, updatedAt: NOW });
+    expect(parseStoredData(value, ['light', 'dark'], NOW)).toEqual({
+      preference: { mode: 'dark', until: NOW + 1000 },
+      schedule: null,
+      updatedAt: NOW,
+      version: 1,
+    });
+  });
+
+  it('upgrades legacy mode strings', () => {
+    expect(parseStoredData('dark', ['light', 'dark'], NOW)).toMatchObject({
+      preference: { mode: 'dark', until: null },
+      version: 0,
+    });
+    expect(parseStoredData(`light@${NOW + 1000}`, ['light', 'dark'], NOW).preference).toEqual({
+      mode: 'light',
+      until: NOW + 1000,
+    });
+    expect(parseStoredData(`light@${NOW - 1000}`, ['light', 'dark'], NOW).preference).toBeNull();
+  });
+
+  it('ignores corrupt values and fields', () => {
+    expect(parseStoredData('{"version":1,"mode":', ['light', 'dark'], NOW).preference).toBeNull();
+    expect(parseStoredData('{"version":1,"mode":"sepia"}', ['light', 'dark'], NOW).preference).toBeNull();
+    expect(
+      parseStoredData('{"version":1,"mode":"dark","until":"soon"}', ['light', 'dark'], NOW).preference
+    ).toBeNull();
+    expect(
+      parseStoredData(
+        '{"version":1,"mode":"dark","schedule":{"lightStart":"noon"},"updatedAt":"x"}',
+        ['light', 'dark'],
+        NOW
+      )
+    ).toMatchObject({ preference: { mode: 'dark' }, schedule: null, updatedAt: null });
+  });
+
+  it('reads known fields of newer versions', () => {
+    expect(
+      parseStoredData('{"version":7,"mode":"dark","accent":"teal"}', ['light', 'dark'], NOW)
+    ).toMatchObject({ preference: { mode: 'dark', until: null }, version: 7 });
+  });
+});
+
+describe('migrateStoredValue', () => {
+  it('runs app migrations before the built-in one', () => {
+    const migrations = [
+      {
+        from: 0,
+        migrate: (value: unknown) =>
+          value === 'night' ? { mode: 'dark', until: null, schedule: null } : undefined,
+      },
+    ];
+    expect(migrateStoredValue('night', 'theme', migrations)?.value).toMatchObject({ mode: 'dark' });
+    expect(migrateStoredValue('light', 'theme', migrations)?.value).toMatchObject({ mode: 'light' });
+  });
+
+  it('discards values a migration rejects or throws on', () => {
+    expect(migrateStoredValue('dark', 'theme', [{ from: 0, migrate: () => null }])).toBeNull();
+    expect(
+      migrateStoredValue('dark', 'theme', [
+        {
+          from: 0,
+          migrate: () => {
+            throw new Error('failed');
+          },
+        },
+      ])
+    ).toBeNull();
+  });
+});
+
+describe('readStoredData', () => {
+  it('moves legacy values to the current format on upgrade', () => {
+    const storage = createMemoryStorageAdapter({ 'auto-theme-mode': `dark@${NOW + 1000}` });
+
+    // Memory storage is read synchronously
+    const stored = readStoredData('auto-theme-mode', ['light', 'dark'], storage, NOW) as StoredThemeRead;
+
+    expect(stored).toMatchObject({ preference: { mode: 'dark', until: NOW + 1000 }, schedule: null });
+    expect(storage.get('auto-theme-mode')).toBe(`dark@${NOW + 1000}`);
+    stored.upgrade?.();
+    expect(JSON.parse(storage.get('auto-theme-mode') as string)).toEqual({
+      version: 1,
+      mode: 'dark',
+      until: NOW + 1000,
+      schedule: null,
+      updatedAt: NOW,
+    });
+  });
+
+  it('reads only the storage keys', () => {
+    const values = createMemoryStorageAdapter();
+    const get = vi.fn(values.get);
+
+    readStoredData('app-theme', ['light', 'dark'], { ...values, get }, NOW, {
+      previousStorageKeys: ['old-theme'],
+    });
+
+    expect(get.mock.calls).toEqual([['app-theme'], ['old-theme']]);
+  });
+
+  it('moves values from a previous storage key', () => {
+    const storage = createMemoryStorageAdapter({ 'old-theme': 'night' });
+    const options = {
+      previousStorageKeys: ['old-theme'],
+      storageMigrations: [
+        {
+          from: 0,
+          migrate: (value: unknown, key: string) =>
+            key === 'old-theme' && value === 'night' ? { mode: 'dark' } : undefined,
+        },
+      ],
+    };
+
+    const stored = readStoredData('app-theme', ['light', 'dark'], storage, NOW, options) as StoredThemeRead;
+
+    expect(stored).toMatchObject({ preference: { mode: 'dark' } });
+    stored.upgrade?.();
+    expect(JSON.parse(storage.get('app-theme') as string)).toMatchObject({ version: 1, mode: 'dark' });
+    expect(storage.get('old-theme')).toBeNull();
+  });
+
+  it('leaves current values alone', () => {
+    const value = '{"version":1,"mode":"light","until":null,"schedule":null,"updatedAt":1}';
+    const storage = createMemoryStorageAdapter({ 'auto-theme-mode': value, 'old-theme': 'dark' });
+
+    const stored = readStoredData('auto-theme-mode', ['light', 'dark'], storage, NOW, {
+      previousStorageKeys: ['old-theme'],
+    });
+
+    expect(stored).toMatchObject({ preference: { mode: 'light' }, updatedAt: 1, upgrade: null });
+    expect(storage.get('auto-theme-mode')).toBe(value);
+    expect(storage.get('old-theme')).toBe('dark');
+  });
+
+  it('reads asynchronous adapters', async () => {
+    const values = createMemoryStorageAdapter({ 'auto-theme-mode': `dark@${NOW + 1000}` });
+    const storage: StorageAdapter = {
+      get: async (key) => values.get(key),
+      set: async (key, value) => values.set(key, value),
+      remove: async (key) => values.remove(key),
+    };
+
+    const stored = await readStoredData('auto-theme-mode', ['light', 'dark'], storage, NOW);
+
+    expect(stored.preference).toEqual({ mode: 'dark', until: NOW + 1000 });
+  });
+});
+
+describe('stored value upgrades', () => {
+  it('are written once the controller starts', () => {
+    const storage = createMemoryStorageAdapter({ 'auto-theme-mode': 'dark' });
+    const controller = new ThemeController({ storage, syncTabs: false, now: () => new Date(NOW) });
+
+    expect(controller.getState().mode).toBe('dark');
+    expect(storage.get('auto-theme-mode')).toBe('dark');
+
+    controller.start();
+    expect(JSON.parse(storage.get('auto-theme-mode') as string)).toMatchObject({ version: 1, mode: 'dark' });
+    controller.destroy();
+  });
+
+  it("don't overwrite a mode set before starting", () => {
+    const storage = createMemoryStorageAdapter({ 'auto-theme-mode': 'dark' });
+    const controller = new ThemeController({ storage, syncTabs: false, now: () => new Date(NOW) });
+
+    controller.setMode('light');
+    controller.start();
+
+    expect(JSON.parse(storage.get('auto-theme-mode') as string)).toMatchObject({ mode: 'light' });
+    controller.destroy();
+  });
+
+  it('wait for asynchronous reads', async () => {
+    const values = createMemoryStorageAdapter({ 'old-theme': 'dark' });
+    const storage: StorageAdapter = {
+      get: async (key) => values.get(key),
+      set: async (key, value) => values.set(key, value),
+      remove: async (key) => values.remove(key),
+    };
+    const controller = new ThemeController({
+      storage,
+      syncTabs: false,
+      previousStorageKeys: ['old-theme'],
+      now: () => new Date(NOW),
+    });
+
+    // Let the read resolve before starting
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(values.get('old-theme')).toBe('dark');
+
+    controller.start();
+    await vi.waitFor(() => expect(controller.getState().mode).toBe('dark'));
+    expect(JSON.parse(values.get('auto-theme-mode') as string)).toMatchObject({ mode: 'dark' });
+    expect(values.get('old-theme')).toBeNull();
+    controller.destroy();
+  });
+});
+
+describe('stored preference', () => {
+  it('keeps the mode and the user schedule in one value', () => {
+    const storage = createMemoryStorageAdapter({ 'auto-theme-mode': 'light' });
+    const harness = createThemeTestHarness(
+      { lightStart: '07:00', darkStart: '22:00', timeZone: 'UTC', storage },
+      '2024-06-01T12:00:00Z'
+    );
+
+    harness.controller.setSchedule({ lightStart: '06:00', darkStart: '11:00' });
+    harness.controller.setMode('dark');
+
+    expect(JSON.parse(storage.get('auto-theme-mode') as string)).toEqual({
+      version: 1,
+      mode: 'dark',
+      until: null,
+      schedule: { lightStart: '06:00', darkStart: '11:00' },
+      updatedAt: NOW,
+    });
+    expect(harness.controller.getState().schedule).toEqual({ lightStart: '06:00', darkStart: '11:00' });
+    harness.destroy();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createModeSync, ModeSync } from '../src/sync';
+import { SYNC_CHANNEL_NAME } from '../src/constants';
+
+const syncs: ModeSync[] = [];
+
+/**
+ * Create a sync for another tab, closed after the test
+ */
+const openTab = (storageType: string | undefined, onChange: (value: string | null) => void) => {
+  const sync = createModeSync('auto-theme-mode', storageType, onChange);
+  syncs.push(sync);
+  return sync;
+};
+
+/**
+ * Wait for messages posted to the channel to be delivered
+ */
+const flushMessages = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+afterEach(() => {
+  syncs.splice(0).forEach((sync) => sync.close());
+  vi.unstubAllGlobals();
+});
+
+describe('createModeSync', () => {
+  it('sends changes of shared storage to other tabs', async () => {
+    vi.stubGlobal('window', new EventTarget());
+    const received = vi.fn();
+    const sender = openTab('localStorage', vi.fn());
+    openTab('localStorage', received);
+    openTab('cookie', vi.fn());
+
+    sender.publish('{"version":1,"mode":"dark"}');
+    await flushMessages();
+
+    expect(received).toHaveBeenCalledWith('{"version":1,"mode":"dark"}');
+  });
+
+  it('posts the stored value', async () => {
+    vi.stubGlobal('window', new EventTarget());
+    const channel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+    const messages: unknown[] = [];
+    channel.onmessage = (event) => messages.push(event.data);
+
+    openTab('localStorage', vi.fn()).publish('{"version":1,"mode":"dark"}');
+    await flushMessages();
+    channel.close();
+
+    expect(messages).toMatchObject([
+      { storageKey: 'auto-theme-mode', value: '{"version":1,"mode":"dark"}' },
+    ]);
+  });
+
+  it('keeps per-tab storage to its tab', async () => {
+    vi.stubGlobal('window', new EventTarget());
+    const received = vi.fn();
+    const sessionTab = openTab('sessionStorage', vi.fn());
+    const memoryTab = openTab('memory', vi.fn());
+    openTab('sessionStorage', received);
+    openTab('memory', received);
+    openTab('localStorage', received);
+
+    sessionTab.publish('{"version":1,"mode":"dark"}');
+    memoryTab.publish('{"version":1,"mode":"dark"}');
+    await flushMessages();
+
+    expect(received).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createThemeTestHarness, assertThemeChanges } from '../src/testUtils';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('createThemeTestHarness', () => {
+  it('runs without timers or wake-up listeners', () => {
+    vi.useFakeTimers();
+    const window = new EventTarget();
+    const addEventListener = vi.spyOn(window, 'addEventListener');
+    vi.stubGlobal('window', window);
+
+    const harness = createThemeTestHarness(
+      { lightStart: '07:00', darkStart: '22:00', timeZone: 'UTC', twilight: { duration: 30 } },
+      '2024-06-01T21:00:00Z'
+    );
+
+    expect(vi.getTimerCount()).toBe(0);
+    expect(addEventListener).not.toHaveBeenCalled();
+
+    harness.advanceToNextBoundary();
+    assertThemeChanges(harness.changes, ['dark']);
+    expect(vi.getTimerCount()).toBe(0);
+    harness.destroy();
+  });
+});
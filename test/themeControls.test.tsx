@@ -0,0 +1,105 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { getAutoStatus } from '../src/autoStatus';
+import { resolveConfig } from '../src/config';
+import { MockAutoThemeProvider } from '../src/MockAutoThemeProvider';
+import { ThemeToggle } from '../src/ThemeToggle';
+import { ThemeModeSelect } from '../src/ThemeModeSelect';
+import { useAutoTheme } from '../src/useAutoTheme';
+import { ThemeContextValue } from '../src/types';
+
+const config = resolveConfig({ lightStart: '07:00', darkStart: '22:00', timeZone: 'UTC' });
+
+describe('getAutoStatus', () => {
+  it('finds the next switch of the schedule', () => {
+    const status = getAutoStatus(config, null, new Date('2024-06-01T12:00:00Z'));
+    expect(status).toEqual({
+      theme: 'light',
+      nextTheme: 'dark',
+      nextChange: new Date('2024-06-01T22:00:00Z'),
+    });
+  });
+
+  it('skips boundaries that keep the theme', () => {
+    const schedule = resolveConfig({
+      schedule: [
+        { start: '07:00', theme: 'light' },
+        { start: '12:00', theme: 'light' },
+        { start: '20:00', theme: 'dark' },
+      ],
+      timeZone: 'UTC',
+    });
+    const status = getAutoStatus(schedule, null, new Date('2024-06-01T08:00:00Z'));
+    expect(status.nextChange).toEqual(new Date('2024-06-01T20:00:00Z'));
+  });
+
+  it('has no switch time while following the OS preference', () => {
+    const system = resolveConfig({ autoPrecedence: 'system', timeZone: 'UTC' });
+    const status = getAutoStatus(system, 'dark', new Date('2024-06-01T12:00:00Z'));
+    expect(status).toEqual({ theme: 'dark', nextTheme: null, nextChange: null });
+  });
+});
+
+describe('ThemeToggle', () => {
+  it('renders a switch checked by the dark theme', () => {
+    const markup = renderToStaticMarkup(
+      <MockAutoThemeProvider theme="dark" mode="dark">
+        <ThemeToggle />
+      </MockAutoThemeProvider>
+    );
+    expect(markup).toContain('role="switch"');
+    expect(markup).toContain('aria-checked="true"');
+    expect(markup).not.toContain('auto-status');
+  });
+
+  it('shows what auto resolves to in auto mode', () => {
+    const markup = renderToStaticMarkup(
+      <MockAutoThemeProvider theme="light" mode="auto">
+        <ThemeToggle />
+      </MockAutoThemeProvider>
+    );
+    expect(markup).toContain('aria-checked="false"');
+    expect(markup).toMatch(/\(Auto: (light|dark) until .+\)/);
+  });
+});
+
+describe('ThemeModeSelect', () => {
+  it('renders a radio group with only the selected option focusable', () => {
+    const markup = renderToStaticMarkup(
+      <MockAutoThemeProvider theme="dark" mode="dark">
+        <ThemeModeSelect />
+      </MockAutoThemeProvider>
+    );
+    expect(markup).toContain('aria-label="Theme" role="radiogroup"');
+    expect(markup.match(/role="radio"/g)).toHaveLength(3);
+    expect(markup).toContain('aria-checked="true" tabindex="0" data-mode="dark"');
+    expect(markup.match(/tabindex="-1"/g)).toHaveLength(2);
+  });
+});
+
+describe('MockAutoThemeProvider', () => {
+  it('calls the setters passed to it, and setMode for the others', () => {
+    const setMode = vi.fn();
+    const setLight = vi.fn();
+    const toggleTheme = vi.fn();
+    let value: ThemeContextValue | null = null;
+    const Capture = () => {
+      value = useAutoTheme();
+      return null;
+    };
+    renderToStaticMarkup(
+      <MockAutoThemeProvider setMode={setMode} setLight={setLight} toggleTheme={toggleTheme}>
+        <Capture />
+      </MockAutoThemeProvider>
+    );
+
+    value!.setLight({ minutes: 5 });
+    value!.toggleTheme();
+    value!.setDark();
+
+    expect(setLight.mock.calls).toEqual([[{ minutes: 5 }]]);
+    expect(toggleTheme).toHaveBeenCalledTimes(1);
+    expect(setMode.mock.calls).toEqual([['dark', undefined]]);
+  });
+});
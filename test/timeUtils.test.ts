@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest';
+import {
+  timeToMinutes,
+  getCurrentMinutes,
+  getZonedDateParts,
+  zonedTimeToDate,
+  addDays,
+  getWeekday,
+  isValidTimeZone,
+  isLightTime,
+  getThemeFromTime,
+  getNextBoundary,
+  getMsUntilNextBoundary,
+  isValidTimeConfig,
+  getThemeFromSchedule,
+  getNextScheduleBoundary,
+  getMsUntilNextScheduleBoundary,
+  getScheduleThemes,
+  isValidThemeName,
+  isValidSchedule,
+  toSchedule,
+} from '../src/timeUtils';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Instant of a UTC wall-clock time on 2024-06-01
+ */
+const utc = (time: string, day = '2024-06-01') => new Date(`${day}T${time}:00Z`);
+
+describe('timeToMinutes', () => {
+  it('parses times with and without leading zeros', () => {
+    expect(timeToMinutes('00:00')).toBe(0);
+    expect(timeToMinutes('07:30')).toBe(450);
+    expect(timeToMinutes('7:30')).toBe(450);
+    expect(timeToMinutes(' 23:59 ')).toBe(1439);
+  });
+
+  it('parses seconds as a fraction of a minute', () => {
+    expect(timeToMinutes('19:30:15')).toBe(1170.25);
+    expect(timeToMinutes('00:00:30')).toBe(0.5);
+  });
+
+  it('parses 12-hour times', () => {
+    expect(timeToMinutes('7:30 PM')).toBe(1170);
+    expect(timeToMinutes('7:30pm')).toBe(1170);
+    expect(timeToMinutes('7 am')).toBe(420);
+    expect(timeToMinutes('12:00 a.m.')).toBe(0);
+    expect(timeToMinutes('12:15 PM')).toBe(735);
+  });
+
+  it('parses hour and minute objects', () => {
+    expect(timeToMinutes({ hour: 19, minute: 30 })).toBe(1170);
+    expect(timeToMinutes({ hour: 7 })).toBe(420);
+    expect(timeToMinutes({ hour: 19, minute: 30, second: 15 })).toBe(1170.25);
+  });
+
+  it('rejects malformed and out-of-range times', () => {
+    expect(() => timeToMinutes('0730')).toThrow('Invalid time format');
+    expect(() => timeToMinutes('aa:bb')).toThrow('Invalid time values');
+    expect(() => timeToMinutes('24:00')).toThrow('Invalid hour value');
+    expect(() => timeToMinutes('12:60')).toThrow('Invalid minute value');
+    expect(() => timeToMinutes('12:00:60')).toThrow('Invalid second value');
+    expect(() => timeToMinutes('13:00 PM')).toThrow('Invalid hour value');
+    expect(() => timeToMinutes('19')).toThrow('Invalid time format');
+    expect(() => timeToMinutes({ hour: 7.5 })).toThrow('Invalid time values');
+  });
+});
+
+describe('isValidTimeConfig', () => {
+  it('checks both start times', () => {
+    expect(isValidTimeConfig('07:00', '22:00')).toBe(true);
+    expect(isValidTimeConfig('07:00', '25:00')).toBe(false);
+  });
+});
+
+describe('light and dark shorthand', () => {
+  describe('daytime range (07:00 to 22:00)', () => {
+    it('is light between the start times', () => {
+      expect(isLightTime('07:00', '22:00', 'UTC', utc('07:00'))).toBe(true);
+      expect(isLightTime('07:00', '22:00', 'UTC', utc('21:59'))).toBe(true);
+    });
+
+    it('is dark outside them, including around midnight', () => {
+      expect(isLightTime('07:00', '22:00', 'UTC', utc('06:59'))).toBe(false);
+      expect(isLightTime('07:00', '22:00', 'UTC', utc('22:00'))).toBe(false);
+      expect(isLightTime('07:00', '22:00', 'UTC', utc('00:00'))).toBe(false);
+      expect(getThemeFromTime('07:00', '22:00', 'UTC', utc('23:30'))).toBe('dark');
+    });
+  });
+
+  describe('light period crossing midnight (20:00 to 04:00)', () => {
+    it('is light on both sides of midnight', () => {
+      expect(isLightTime('20:00', '04:00', 'UTC', utc('20:00'))).toBe(true);
+      expect(isLightTime('20:00', '04:00', 'UTC', utc('23:59'))).toBe(true);
+      expect(isLightTime('20:00', '04:00', 'UTC', utc('00:00'))).toBe(true);
+      expect(isLightTime('20:00', '04:00', 'UTC', utc('03:59'))).toBe(true);
+    });
+
+    it('is dark during the day', () => {
+      expect(isLightTime('20:00', '04:00', 'UTC', utc('04:00'))).toBe(false);
+      expect(getThemeFromTime('20:00', '04:00', 'UTC', utc('12:00'))).toBe('dark');
+    });
+  });
+
+  it('stays light all day when both start times are equal', () => {
+    expect(isLightTime('07:00', '07:00', 'UTC', utc('06:59'))).toBe(true);
+    expect(isLightTime('07:00', '07:00', 'UTC', utc('07:00'))).toBe(true);
+    expect(toSchedule('07:00', '7:00 AM')).toEqual([{ start: '07:00', theme: 'light' }]);
+    expect(getThemeFromSchedule(toSchedule('07:00', '07:00'), 'UTC', utc('06:59'))).toBe('light');
+  });
+
+  it('finds the next boundary, rolling over to tomorrow after the last one', () => {
+    expect(getNextBoundary('07:00', '22:00', 'UTC', utc('06:00'))).toBe(420);
+    expect(getNextBoundary('07:00', '22:00', 'UTC', utc('12:00'))).toBe(1320);
+    expect(getNextBoundary('07:00', '22:00', 'UTC', utc('23:00'))).toBe(420 + 1440);
+    expect(getNextBoundary('20:00', '04:00', 'UTC', utc('23:00'))).toBe(240);
+    expect(getNextBoundary('20:00', '04:00', 'UTC', utc('12:00'))).toBe(1200);
+  });
+
+  it('measures the time until the next boundary across midnight', () => {
+    expect(getMsUntilNextBoundary('07:00', '22:00', 'UTC', utc('21:00'))).toBe(HOUR);
+    expect(getMsUntilNextBoundary('07:00', '22:00', 'UTC', utc('23:00'))).toBe(8 * HOUR);
+    expect(getMsUntilNextBoundary('20:00', '04:00', 'UTC', utc('23:30'))).toBe(4.5 * HOUR);
+  });
+});
+
+describe('schedules', () => {
+  const schedule = [
+    { start: '22:00', theme: 'night' },
+    { start: '06:00', theme: 'dawn' },
+    { start: '09:00', theme: 'day' },
+  ];
+
+  it('keeps the last segment of the day active past midnight', () => {
+    expect(getThemeFromSchedule(schedule, 'UTC', utc('23:00'))).toBe('night');
+    expect(getThemeFromSchedule(schedule, 'UTC', utc('00:00'))).toBe('night');
+    expect(getThemeFromSchedule(schedule, 'UTC', utc('05:59'))).toBe('night');
+  });
+
+  it('switches exactly at segment starts, regardless of their order', () => {
+    expect(getThemeFromSchedule(schedule, 'UTC', utc('06:00'))).toBe('dawn');
+    expect(getThemeFromSchedule(schedule, 'UTC', utc('09:00'))).toBe('day');
+    expect(getThemeFromSchedule(schedule, 'UTC', utc('22:00'))).toBe('night');
+  });
+
+  it('switches to the second at start times with seconds', () => {
+    const precise = [
+      { start: '7:00 AM', theme: 'day' },
+      { start: { hour: 19, minute: 30, second: 15 }, theme: 'night' },
+    ];
+    expect(getThemeFromSchedule(precise, 'UTC', new Date('2024-06-01T19:30:14Z'))).toBe('day');
+    expect(getThemeFromSchedule(precise, 'UTC', new Date('2024-06-01T19:30:15Z'))).toBe('night');
+    expect(getMsUntilNextScheduleBoundary(precise, 'UTC', utc('19:30'))).toBe(15 * 1000);
+  });
+
+  it('finds the next boundary, which is tomorrow after the last segment starts', () => {
+    expect(getNextScheduleBoundary(schedule, 'UTC', utc('07:00'))).toBe(540);
+    expect(getNextScheduleBoundary(schedule, 'UTC', utc('22:30'))).toBe(360 + 1440);
+    expect(getMsUntilNextScheduleBoundary(schedule, 'UTC', utc('22:30'))).toBe(7.5 * HOUR);
+  });
+
+  it('lists themes in order of first appearance', () => {
+    expect(getScheduleThemes([...schedule, { start: '12:00', theme: 'dawn' }])).toEqual([
+      'night',
+      'dawn',
+      'day',
+    ]);
+  });
+
+  it('validates segments', () => {
+    expect(isValidSchedule(schedule)).toBe(true);
+    expect(isValidSchedule([])).toBe(false);
+    expect(isValidSchedule([{ start: '25:00', theme: 'day' }])).toBe(false);
+    expect(
+      isValidSchedule([
+        { start: '07:00', theme: 'day' },
+        { start: '7:00', theme: 'night' },
+      ])
+    ).toBe(false);
+    expect(isValidSchedule([{ start: '07:00', theme: 'auto' }])).toBe(false);
+  });
+
+  it('reserves the automatic mode names', () => {
+    expect(isValidThemeName('sepia')).toBe(true);
+    expect(isValidThemeName('auto')).toBe(false);
+    expect(isValidThemeName('system')).toBe(false);
+    expect(isValidThemeName('ambient')).toBe(false);
+    expect(isValidThemeName('')).toBe(false);
+    expect(isValidThemeName(1)).toBe(false);
+  });
+});
+
+describe('time zones', () => {
+  it('reads wall-clock time in a time zone', () => {
+    const instant = utc('02:30');
+    expect(getZonedDateParts(instant, 'UTC')).toEqual({ year: 2024, month: 6, day: 1, minutes: 150 });
+    // Tokyo is UTC+9, so it's already late morning
+    expect(getCurrentMinutes('Asia/Tokyo', instant)).toBe(11 * 60 + 30);
+    // New York is UTC-4 in summer, so it's still the previous evening
+    expect(getZonedDateParts(instant, 'America/New_York')).toEqual({
+      year: 2024,
+      month: 5,
+      day: 31,
+      minutes: 22 * 60 + 30,
+    });
+  });
+
+  it('evaluates the shorthand in the given time zone', () => {
+    // 21:30 UTC is 06:30 the next morning in Tokyo
+    expect(getThemeFromTime('07:00', '22:00', 'Asia/Tokyo', utc('21:30'))).toBe('dark');
+    expect(getThemeFromTime('07:00', '22:00', 'Asia/Tokyo', utc('22:00'))).toBe('light');
+  });
+
+  it('converts wall-clock times back to instants', () => {
+    const date = { year: 2024, month: 6, day: 1 };
+    expect(zonedTimeToDate(date, 7 * 60, 'UTC').toISOString()).toBe('2024-06-01T07:00:00.000Z');
+    expect(zonedTimeToDate(date, 7 * 60, 'America/New_York').toISOString()).toBe(
+      '2024-06-01T11:00:00.000Z'
+    );
+  });
+
+  it('moves times skipped by DST to the end of the gap', () => {
+    // Clocks in New York jumped from 02:00 to 03:00 on 2024-03-10
+    const date = { year: 2024, month: 3, day: 10 };
+    expect(zonedTimeToDate(date, 2 * 60 + 30, 'America/New_York').toISOString()).toBe(
+      '2024-03-10T07:30:00.000Z'
+    );
+  });
+
+  it('resolves times repeated by DST to their first occurrence', () => {
+    // Clocks in New York went back from 02:00 to 01:00 on 2024-11-03
+    const date = { year: 2024, month: 11, day: 3 };
+    expect(zonedTimeToDate(date, 60 + 30, 'America/New_York').toISOString()).toBe(
+      '2024-11-03T05:30:00.000Z'
+    );
+  });
+
+  it('measures boundaries across a 23-hour day', () => {
+    // From 22:00 EST on 2024-03-09 to 07:00 EDT on 2024-03-10 is 8 hours
+    const now = new Date('2024-03-10T03:00:00Z');
+    expect(getMsUntilNextBoundary('07:00', '22:00', 'America/New_York', now)).toBe(8 * HOUR);
+  });
+
+  it('recognizes supported time zones', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('calendar days', () => {
+  it('adds days across month and year ends', () => {
+    expect(addDays({ year: 2024, month: 2, day: 28 }, 1)).toEqual({ year: 2024, month: 2, day: 29 });
+    expect(addDays({ year: 2024, month: 12, day: 31 }, 1)).toEqual({ year: 2025, month: 1, day: 1 });
+    expect(addDays({ year: 2024, month: 1, day: 1 }, -1)).toEqual({ year: 2023, month: 12, day: 31 });
+  });
+
+  it('gets the weekday of a calendar day', () => {
+    // 2024-06-01 was a Saturday
+    expect(getWeekday({ year: 2024, month: 6, day: 1 })).toBe(6);
+    expect(getWeekday({ year: 2024, month: 6, day: 2 })).toBe(0);
+  });
+});
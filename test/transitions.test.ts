@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { getThemeAt, getTransitions, getNextTransition } from '../src/transitions';
+import { resolveConfig } from '../src/config';
+
+const config = { lightStart: '07:00', darkStart: '22:00', timeZone: 'UTC' };
+
+describe('getThemeAt', () => {
+  it('returns the scheduled theme at a moment', () => {
+    expect(getThemeAt(new Date('2024-06-01T12:00:00Z'), config)).toBe('light');
+    expect(getThemeAt(new Date('2024-06-01T23:00:00Z'), config)).toBe('dark');
+    expect(getThemeAt(new Date('2024-06-01T03:00:00Z'), config)).toBe('dark');
+  });
+
+  it('uses weekday schedules', () => {
+    const weekend = { ...config, days: { saturday: { theme: 'dark' as const } } };
+    // 2024-06-01 is a Saturday
+    expect(getThemeAt(new Date('2024-06-01T12:00:00Z'), weekend)).toBe('dark');
+    expect(getThemeAt(new Date('2024-06-02T12:00:00Z'), weekend)).toBe('light');
+  });
+});
+
+describe('getTransitions', () => {
+  it('lists the switches within a range with their themes', () => {
+    const transitions = getTransitions(
+      new Date('2024-06-01T00:00:00Z'),
+      new Date('2024-06-02T07:00:00Z'),
+      config
+    );
+    expect(transitions).toEqual([
+      { at: new Date('2024-06-01T07:00:00Z'), theme: 'light', previousTheme: 'dark' },
+      { at: new Date('2024-06-01T22:00:00Z'), theme: 'dark', previousTheme: 'light' },
+      { at: new Date('2024-06-02T07:00:00Z'), theme: 'light', previousTheme: 'dark' },
+    ]);
+  });
+
+  it('excludes the start of the range', () => {
+    const transitions = getTransitions(
+      new Date('2024-06-01T07:00:00Z'),
+      new Date('2024-06-01T23:00:00Z'),
+      config
+    );
+    expect(transitions.map(({ theme }) => theme)).toEqual(['dark']);
+  });
+
+  it('skips boundaries between segments of the same theme', () => {
+    const transitions = getTransitions(
+      new Date('2024-06-01T00:00:00Z'),
+      new Date('2024-06-01T23:59:00Z'),
+      {
+        schedule: [
+          { start: '07:00', theme: 'light' },
+          { start: '12:00', theme: 'light' },
+          { start: '20:00', theme: 'dim' },
+        ],
+        timeZone: 'UTC',
+      }
+    );
+    expect(transitions.map(({ at }) => at.toISOString())).toEqual([
+      '2024-06-01T07:00:00.000Z',
+      '2024-06-01T20:00:00.000Z',
+    ]);
+  });
+});
+
+describe('getNextTransition', () => {
+  it('finds the next switch after a day without any', () => {
+    const weekend = resolveConfig({ ...config, days: { weekend: { theme: 'dark' } } });
+    const next = getNextTransition(weekend, new Date('2024-05-31T23:00:00Z'));
+    expect(next).toEqual({
+      at: new Date('2024-06-03T07:00:00Z'),
+      theme: 'light',
+      previousTheme: 'dark',
+    });
+  });
+
+  it('returns null when the schedule never switches', () => {
+    const single = resolveConfig({ schedule: [{ start: '00:00', theme: 'dark' }], timeZone: 'UTC' });
+    expect(getNextTransition(single, new Date('2024-06-01T12:00:00Z'))).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { getTwilightProgress, findTwilightBoundary, getNextTwilightUpdate } from '../src/twilight';
+import { resolveConfig } from '../src/config';
+import { ThemeConfig } from '../src/types';
+
+const at = (time: string) => new Date(`2024-06-01T${time}Z`);
+
+const config = resolveConfig({
+  lightStart: '07:00',
+  darkStart: '19:00',
+  timeZone: 'UTC',
+  twilight: { duration: 60 },
+});
+
+describe('getTwilightProgress', () => {
+  it('uses the level of the scheduled theme outside the windows', () => {
+    expect(getTwilightProgress(config, at('12:00:00'))).toBe(0);
+    expect(getTwilightProgress(config, at('18:29:59'))).toBe(0);
+    expect(getTwilightProgress(config, at('23:00:00'))).toBe(1);
+    expect(getTwilightProgress(resolveConfig({ ...config, twilight: undefined }), at('19:15:00'))).toBe(1);
+  });
+
+  it('moves linearly across a window', () => {
+    expect(getTwilightProgress(config, at('18:30:00'))).toBe(0);
+    expect(getTwilightProgress(config, at('18:45:00'))).toBe(0.25);
+    expect(getTwilightProgress(config, at('19:00:00'))).toBe(0.5);
+    expect(getTwilightProgress(config, at('19:15:00'))).toBe(0.75);
+    expect(getTwilightProgress(config, at('07:15:00'))).toBe(0.25);
+  });
+
+  it('follows a window spanning midnight', () => {
+    const late = resolveConfig({ ...config, darkStart: '23:45' });
+    expect(getTwilightProgress(late, at('23:15:00'))).toBe(0);
+    expect(getTwilightProgress(late, at('23:45:00'))).toBe(0.5);
+    expect(getTwilightProgress(late, new Date('2024-06-02T00:00:00Z'))).toBe(0.75);
+    expect(getTwilightProgress(late, new Date('2024-06-02T00:15:00Z'))).toBe(1);
+  });
+
+  it('stays level across boundaries between themes of the same level', () => {
+    const sepia = resolveConfig({
+      timeZone: 'UTC',
+      twilight: { duration: 60 },
+      schedule: [
+        { start: '07:00', theme: 'light' },
+        { start: '12:00', theme: 'sepia' },
+        { start: '19:00', theme: 'dark' },
+      ],
+    });
+    expect(getTwilightProgress(sepia, at('11:45:00'))).toBe(0);
+    expect(getTwilightProgress(sepia, at('12:15:00'))).toBe(0);
+    expect(getTwilightProgress(sepia, at('19:15:00'))).toBe(0.75);
+  });
+});
+
+describe('findTwilightBoundary', () => {
+  const { twilight } = config as Required<ThemeConfig>;
+
+  it('finds the boundary of the window containing an instant', () => {
+    expect(findTwilightBoundary(config, twilight, at('18:30:00').getTime())).toBe(at('19:00:00').getTime());
+    expect(findTwilightBoundary(config, twilight, at('19:29:59').getTime())).toBe(at('19:00:00').getTime());
+  });
+
+  it('returns null outside all windows', () => {
+    expect(findTwilightBoundary(config, twilight, at('12:00:00').getTime())).toBeNull();
+    expect(findTwilightBoundary(config, twilight, at('19:30:00').getTime())).toBeNull();
+  });
+
+  it('finds the previous day boundary after midnight', () => {
+    const late = resolveConfig({ ...config, darkStart: '23:45' });
+    expect(findTwilightBoundary(late, twilight, new Date('2024-06-02T00:10:00Z').getTime())).toBe(
+      at('23:45:00').getTime()
+    );
+  });
+});
+
+describe('getNextTwilightUpdate', () => {
+  it('waits for the start of the next window', () => {
+    expect(getNextTwilightUpdate(config, at('12:00:00'))).toBe(at('18:30:00').getTime());
+    expect(getNextTwilightUpdate(config, at('19:30:00'))).toBe(new Date('2024-06-02T06:30:00Z').getTime());
+    expect(getNextTwilightUpdate(resolveConfig({ ...config, twilight: undefined }), at('12:00:00'))).toBeNull();
+  });
+
+  it('updates at the configured interval during a window', () => {
+    expect(getNextTwilightUpdate(config, at('18:30:00'))).toBe(at('18:30:30').getTime());
+    const slow = resolveConfig({ ...config, twilight: { duration: 60, interval: 120 } });
+    expect(getNextTwilightUpdate(slow, at('19:00:00'))).toBe(at('19:02:00').getTime());
+  });
+
+  it('ends the updates with the window', () => {
+    expect(getNextTwilightUpdate(config, at('19:29:50'))).toBe(at('19:30:00').getTime());
+  });
+});
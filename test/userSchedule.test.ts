@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { isValidUserSchedule, normalizeUserSchedule, applyUserSchedule } from '../src/schedule';
+import { parseStoredData, serializePreference, createMemoryStorageAdapter } from '../src/storage';
+import { resolveConfig } from '../src/config';
+import { createThemeTestHarness, assertThemeChanges } from '../src/testUtils';
+
+describe('isValidUserSchedule', () => {
+  it('accepts two different valid times', () => {
+    expect(isValidUserSchedule({ lightStart: '06:30', darkStart: '8:15 PM' })).toBe(true);
+  });
+
+  it('rejects invalid and equal times', () => {
+    expect(isValidUserSchedule({ lightStart: '25:00', darkStart: '20:00' })).toBe(false);
+    expect(isValidUserSchedule({ lightStart: '8:00 PM', darkStart: '20:00' })).toBe(false);
+    expect(isValidUserSchedule(null)).toBe(false);
+  });
+});
+
+describe('stored schedules', () => {
+  it('round-trips with 24-hour times', () => {
+    const value = serializePreference({
+      mode: null,
+      schedule: { lightStart: '6:30 AM', darkStart: { hour: 20, minute: 15 } },
+      updatedAt: 0,
+    });
+    expect(value).toBe(
+      '{"version":1,"mode":null,"until":null,"schedule":{"lightStart":"06:30","darkStart":"20:15"},"updatedAt":0}'
+    );
+    expect(parseStoredData(value).schedule).toEqual({ lightStart: '06:30', darkStart: '20:15' });
+    expect(normalizeUserSchedule({ lightStart: '07:00:30', darkStart: '22:00' }).lightStart).toBe(
+      '07:00:30'
+    );
+  });
+
+  it('ignores corrupt values', () => {
+    expect(parseStoredData('dark').schedule).toBeNull();
+    expect(
+      parseStoredData('{"version":1,"schedule":{"lightStart":"99:00","darkStart":"20:00"}}').schedule
+    ).toBeNull();
+    expect(parseStoredData(null).schedule).toBeNull();
+  });
+});
+
+describe('applyUserSchedule', () => {
+  it('replaces the daily schedule and keeps the rest', () => {
+    const config = resolveConfig({
+      solar: { latitude: 52.5, longitude: 13.4 },
+      days: { sunday: { theme: 'dark' } },
+    });
+    const applied = applyUserSchedule(config, { lightStart: '06:00', darkStart: '20:00' });
+    expect(applied.solar).toBeUndefined();
+    expect(applied.lightStart).toBe('06:00');
+    expect(applied.days).toBe(config.days);
+    expect(applyUserSchedule(config, null)).toBe(config);
+  });
+});
+
+describe('setSchedule', () => {
+  it('switches to the new hours right away and persists them', () => {
+    const storage = createMemoryStorageAdapter();
+    const harness = createThemeTestHarness(
+      { lightStart: '07:00', darkStart: '22:00', timeZone: 'UTC', storage },
+      '2024-06-01T21:00:00Z'
+    );
+
+    expect(harness.controller.setSchedule({ lightStart: '06:00', darkStart: '20:00' })).toBe(true);
+    expect(harness.controller.getState().schedule).toEqual({ lightStart: '06:00', darkStart: '20:00' });
+    expect(JSON.parse(storage.get('auto-theme-mode') as string)).toMatchObject({
+      mode: null,
+      schedule: { lightStart: '06:00', darkStart: '20:00' },
+    });
+
+    // The next boundary is the user's 06:00
+    harness.advanceToNextBoundary();
+    expect(harness.clock.now().toISOString()).toBe('2024-06-02T06:00:00.000Z');
+    assertThemeChanges(harness.changes, [
+      { theme: 'dark', reason: 'user' },
+      { theme: 'light', reason: 'schedule' },
+    ]);
+    harness.destroy();
+  });
+
+  it('rejects invalid hours and resets to the configured ones', () => {
+    const storage = createMemoryStorageAdapter({
+      'auto-theme-mode': serializePreference({
+        mode: null,
+        schedule: { lightStart: '06:00', darkStart: '20:00' },
+      }),
+    });
+    const harness = createThemeTestHarness(
+      { lightStart: '07:00', darkStart: '22:00', timeZone: 'UTC', storage },
+      '2024-06-01T21:00:00Z'
+    );
+    expect(harness.controller.getState().theme).toBe('dark');
+
+    expect(harness.controller.setSchedule({ lightStart: 'noon', darkStart: '20:00' })).toBe(false);
+    harness.controller.resetSchedule();
+
+    expect(harness.controller.getState()).toMatchObject({ theme: 'light', schedule: null });
+    expect(storage.get('auto-theme-mode')).toBeNull();
+    harness.destroy();
+  });
+});